@@ -0,0 +1,29 @@
+/**
+ * Builds every sketch under `src/sketches/**` into WGSL and GLSL, without a GPU, and reports what fails.
+ *
+ * Usage: pnpm validate:sketches [filter]
+ *
+ * Sketches are loaded through Vite, so path aliases and `import.meta.glob` work like in the app.
+ * Exits with code 1 if any sketch fails.
+ */
+import { createServer } from 'vite'
+
+const filter = process.argv[2]
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  // Nothing is served to a browser, so there is nothing to pre-bundle
+  optimizeDeps: { noDiscovery: true },
+})
+
+try {
+  const { validateSketches, formatValidationReport } = await server.ssrLoadModule('/src/utils/sketch_validation.ts')
+  const results = await validateSketches(filter)
+
+  console.log(formatValidationReport(results))
+  process.exitCode = results.every(({ passed }) => passed) ? 0 : 1
+} finally {
+  await server.close()
+}
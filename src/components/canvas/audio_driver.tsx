@@ -0,0 +1,59 @@
+import { useFrame } from '@react-three/fiber'
+import { useEffect, useMemo } from 'react'
+import { useAudioStore } from '@/stores/audio_store'
+import { useClockStore } from '@/stores/clock_store'
+import { audioBass, audioBeat, audioLevel, audioMid, audioSpectrumTexture, audioTreble } from '@/tsl/audio/audio'
+import { analyzeAudioFrame, AUDIO_FFT_SIZE, createAudioAnalysis } from '@/utils/audio_analysis'
+import { readAudioFrame, setAudioPaused } from '@/utils/audio_input'
+
+/**
+ * AudioDriver
+ *
+ * Analyzes the audio source of `useAudioStore` once per rendered frame and writes the results into the audio
+ * uniforms and the spectrum texture (see `@/tsl/audio/audio`). Without a source they rest at 0. Audio files pause
+ * with the sketch clock.
+ *
+ * @returns {null}
+ */
+export const AudioDriver = () => {
+  const source = useAudioStore((state) => state.source)
+  const paused = useClockStore((state) => state.paused)
+  const spectrum = audioSpectrumTexture.image.data as Uint8Array<ArrayBuffer>
+  const waveform = useMemo(() => new Float32Array(AUDIO_FFT_SIZE), [])
+  // A new source starts from silence
+  const analysis = useMemo(() => createAudioAnalysis(), [source])
+
+  useEffect(() => {
+    setAudioPaused(paused)
+  }, [paused, source])
+
+  // Clears the uniforms once the source goes away
+  useEffect(() => {
+    if (source) {
+      return
+    }
+
+    spectrum.fill(0)
+    audioSpectrumTexture.needsUpdate = true
+    for (const node of [audioBass, audioMid, audioTreble, audioLevel, audioBeat]) {
+      node.value = 0
+    }
+  }, [source])
+
+  useFrame((_, delta) => {
+    const sampleRate = source ? readAudioFrame(spectrum, waveform) : undefined
+    if (!sampleRate) {
+      return
+    }
+
+    const features = analyzeAudioFrame(analysis, spectrum, waveform, sampleRate, delta)
+    audioBass.value = features.bass
+    audioMid.value = features.mid
+    audioTreble.value = features.treble
+    audioLevel.value = features.level
+    audioBeat.value = features.beat
+    audioSpectrumTexture.needsUpdate = true
+  })
+
+  return null
+}
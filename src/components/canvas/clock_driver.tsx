@@ -0,0 +1,17 @@
+import { useFrame } from '@react-three/fiber'
+import { useClockStore } from '@/stores/clock_store'
+
+/**
+ * ClockDriver
+ *
+ * Advances the sketch clock (and so the `clockTime` uniform) once per rendered frame.
+ *
+ * @returns {null}
+ */
+export const ClockDriver = () => {
+  useFrame((_, delta) => {
+    useClockStore.getState().tick(delta)
+  })
+
+  return null
+}
@@ -0,0 +1,138 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useRef, useState } from 'react'
+import * as THREE from 'three/webgpu'
+import { useClockStore } from '@/stores/clock_store'
+import { useSketchStore } from '@/stores/sketch_store'
+import {
+  createComputeResources,
+  disposeComputeResources,
+  MAX_COMPUTE_DELTA,
+  type ComputeResources,
+} from '@/utils/compute_sketch'
+import { diagnoseCompute, diagnoseMaterial, toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import type { ComputeSketch as ComputeSketchDescription, SketchCamera } from '@/utils/sketch_module'
+import { SketchPerspectiveCamera } from './scene_sketch'
+
+type ComputeSketchProps = {
+  /** What the compute sketch's default export returned */
+  sketch: ComputeSketchDescription
+  camera?: SketchCamera
+  /** Called with `null` once the kernels and the instances' material compile, or with the first error */
+  onResult?: (diagnostic: ShaderDiagnostic | null) => void
+}
+
+/**
+ * Compiles the kernels and the material of `resources` offscreen, then fills the buffers with `init`.
+ */
+const prepare = async (renderer: THREE.WebGPURenderer, resources: ComputeResources) => {
+  for (const kernel of [resources.init, resources.update]) {
+    const diagnostic = kernel ? await diagnoseCompute(renderer, kernel) : null
+    if (diagnostic) {
+      return diagnostic
+    }
+  }
+
+  const diagnostic = await diagnoseMaterial(renderer, resources.material, resources.geometry)
+  if (diagnostic) {
+    return diagnostic
+  }
+
+  if (resources.init) {
+    await renderer.computeAsync(resources.init)
+  }
+
+  return null
+}
+
+/**
+ * ComputeSketch
+ *
+ * Runs a compute sketch (see `ComputeSketch` in `sketch_module`): `init` fills its storage buffers, then `update`
+ * is dispatched before every frame in which the sketch clock moved forward, and the instances are drawn from the
+ * buffers with a perspective camera. Rewinding the clock (or looping) and changing the seed run `init` again, as
+ * the simulation can't be played backwards.
+ * Like `SceneSketch`, nothing shows until everything compiled. Needs `WebGPUScene` with `orthographic={false}`.
+ *
+ * @returns {JSX.Element}
+ */
+export const ComputeSketch = ({ sketch, camera, onResult }: ComputeSketchProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as THREE.WebGPURenderer
+  const [resources, setResources] = useState<ComputeResources | null>(null)
+  const lastTime = useRef<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let next: ComputeResources
+
+    try {
+      next = createComputeResources(sketch)
+    } catch (error) {
+      onResult?.(toBuildDiagnostic(error))
+      return
+    }
+
+    prepare(renderer, next)
+      .catch(toBuildDiagnostic)
+      .then((diagnostic) => {
+        if (cancelled) {
+          return
+        }
+
+        lastTime.current = null
+        setResources(diagnostic ? null : next)
+        onResult?.(diagnostic)
+      })
+
+    return () => {
+      cancelled = true
+      setResources(null)
+      disposeComputeResources(next)
+    }
+  }, [renderer, sketch])
+
+  useEffect(() => {
+    if (!resources?.init) {
+      return
+    }
+
+    const { init } = resources
+    return useSketchStore.subscribe((state, previous) => {
+      if (state.seed !== previous.seed) {
+        renderer.compute(init)
+      }
+    })
+  }, [renderer, resources])
+
+  useFrame(() => {
+    if (!resources) {
+      return
+    }
+
+    const { time } = useClockStore.getState()
+    const previous = lastTime.current
+    lastTime.current = time
+
+    if (previous === null || time === previous) {
+      return
+    }
+
+    if (time < previous) {
+      if (resources.init) {
+        renderer.compute(resources.init)
+      }
+      return
+    }
+
+    if (resources.update) {
+      resources.delta.value = Math.min(time - previous, MAX_COMPUTE_DELTA)
+      renderer.compute(resources.update)
+    }
+  })
+
+  return (
+    <>
+      <SketchPerspectiveCamera camera={camera} />
+      {resources ? <primitive object={resources.object} /> : null}
+    </>
+  )
+}
@@ -0,0 +1,141 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useRef, useState } from 'react'
+import * as THREE from 'three/webgpu'
+import { useClockStore } from '@/stores/clock_store'
+import { useSketchStore } from '@/stores/sketch_store'
+import {
+  createFeedbackResources,
+  disposeFeedbackResources,
+  MAX_FEEDBACK_DELTA,
+  resetFeedback,
+  resizeFeedback,
+  stepFeedback,
+  type FeedbackResources,
+} from '@/utils/feedback_sketch'
+import { diagnoseMaterial, toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import type { FeedbackDisplay, FeedbackSketch as FeedbackStep } from '@/utils/sketch_module'
+import type { SketchUniforms } from '@/utils/sketch_params'
+
+type FeedbackSketchProps = {
+  /** The feedback sketch's default export */
+  step: FeedbackStep
+  display?: FeedbackDisplay
+  /** Steps per frame */
+  steps?: number
+  uniforms: SketchUniforms
+  /** Called with `null` once the step and display materials compile, or with the first error */
+  onResult?: (diagnostic: ShaderDiagnostic | null) => void
+}
+
+/**
+ * Compiles both materials of `resources` offscreen.
+ */
+const prepare = async (renderer: THREE.WebGPURenderer, resources: FeedbackResources) => {
+  for (const material of [resources.step, resources.display]) {
+    const diagnostic = await diagnoseMaterial(renderer, material)
+    if (diagnostic) {
+      return diagnostic
+    }
+  }
+
+  return null
+}
+
+/**
+ * FeedbackSketch
+ *
+ * Runs a feedback sketch (see `FeedbackSketch` in `sketch_module`): before every frame in which the sketch clock
+ * moved forward, the next state is drawn into one float render target from the other, then they swap. The latest
+ * state is shown on a fullscreen plane through the sketch's `display`.
+ * The state always matches the canvas' size in pixels, and starts over (cleared, `frame` back to 0) when the canvas
+ * is resized, the clock rewinds or loops, or the seed changes. Like `ShaderCheck`, nothing shows until it compiled.
+ *
+ * @returns {JSX.Element}
+ */
+export const FeedbackSketch = ({ step, display, steps = 1, uniforms, onResult }: FeedbackSketchProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as THREE.WebGPURenderer
+  const { width, height } = useThree((state) => state.viewport)
+  const size = useThree((state) => state.size)
+  const dpr = useThree((state) => state.viewport.dpr)
+  const [resources, setResources] = useState<FeedbackResources | null>(null)
+  const lastTime = useRef<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let next: FeedbackResources
+
+    try {
+      next = createFeedbackResources(step, display, uniforms)
+    } catch (error) {
+      onResult?.(toBuildDiagnostic(error))
+      return
+    }
+
+    prepare(renderer, next)
+      .catch(toBuildDiagnostic)
+      .then((diagnostic) => {
+        if (cancelled) {
+          return
+        }
+
+        lastTime.current = null
+        setResources(diagnostic ? null : next)
+        onResult?.(diagnostic)
+      })
+
+    return () => {
+      cancelled = true
+      setResources(null)
+      disposeFeedbackResources(next)
+    }
+  }, [renderer, step, display, uniforms])
+
+  // The state has one texel per pixel of the drawing buffer
+  useEffect(() => {
+    if (resources) {
+      resizeFeedback(renderer, resources, Math.round(size.width * dpr), Math.round(size.height * dpr))
+    }
+  }, [renderer, resources, size.width, size.height, dpr])
+
+  useEffect(() => {
+    if (!resources) {
+      return
+    }
+
+    return useSketchStore.subscribe((state, previous) => {
+      if (state.seed !== previous.seed) {
+        resetFeedback(renderer, resources)
+      }
+    })
+  }, [renderer, resources])
+
+  useFrame(() => {
+    if (!resources) {
+      return
+    }
+
+    const { time } = useClockStore.getState()
+    const previous = lastTime.current
+    lastTime.current = time
+
+    if (previous === null || time === previous) {
+      return
+    }
+
+    if (time < previous) {
+      resetFeedback(renderer, resources)
+      return
+    }
+
+    resources.delta.value = Math.min(time - previous, MAX_FEEDBACK_DELTA) / steps
+    for (let index = 0; index < steps; index++) {
+      stepFeedback(renderer, resources)
+    }
+  })
+
+  return resources ? (
+    <mesh material={resources.display} scale={[width, height, 1]}>
+      <planeGeometry args={[1, 1]} />
+    </mesh>
+  ) : null
+}
@@ -0,0 +1,49 @@
+import { addAfterEffect, useThree } from '@react-three/fiber'
+import { useEffect } from 'react'
+
+/**
+ * Resolves with the next frame rendered to the canvas, encoded as `mimeType` (PNG by default).
+ */
+export type CaptureFrame = (mimeType?: string) => Promise<Blob>
+
+type FrameCaptureProps = {
+  /** Called with the capture function once mounted, and with `null` on unmount */
+  onReady: (capture: CaptureFrame | null) => void
+}
+
+/**
+ * FrameCapture
+ *
+ * Captures the canvas as it is displayed, post-processing included. The canvas is read right after the next frame
+ * renders, while its content is still current.
+ *
+ * @returns {null}
+ */
+export const FrameCapture = ({ onReady }: FrameCaptureProps) => {
+  const get = useThree((state) => state.get)
+
+  useEffect(() => {
+    const capture: CaptureFrame = (mimeType = 'image/png') => {
+      return new Promise((resolve, reject) => {
+        const unsubscribe = addAfterEffect(() => {
+          unsubscribe()
+          get().gl.domElement.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the frame'))),
+            mimeType,
+          )
+        })
+
+        // Renders a frame even when the canvas only renders on demand
+        get().invalidate()
+      })
+    }
+
+    onReady(capture)
+
+    return () => {
+      onReady(null)
+    }
+  }, [get])
+
+  return null
+}
@@ -0,0 +1,95 @@
+import { useThree } from '@react-three/fiber'
+import { useEffect } from 'react'
+import { time } from 'three/tsl'
+import { clockTime } from '@/tsl/time/clock_time'
+import { useClockStore } from '@/stores/clock_store'
+import { useRecorderStore } from '@/stores/recorder_store'
+import { downloadBlob } from '@/utils/export_still'
+import { createPngSequenceSink, createWebMSink } from '@/utils/recording'
+
+/**
+ * Makes the built-in TSL `time` node read the sketch clock instead of the renderer's wall time.
+ * @returns A function handing it back to the renderer
+ */
+const followClock = () => {
+  time.onRenderUpdate(() => clockTime.value)
+
+  return () => {
+    time.onRenderUpdate((frame) => frame.time)
+  }
+}
+
+/**
+ * FrameRecorder
+ *
+ * Records the canvas when `useRecorderStore().start()` is called. While recording, `WebGPUScene` switches the canvas
+ * to `frameloop='never'` and this steps it manually with a fixed timestep of `1 / fps`, so both `clockTime` and the
+ * built-in `time` (which follows `clockTime` meanwhile) advance exactly one frame per capture however long rendering
+ * takes.
+ *
+ * @returns {null}
+ */
+export const FrameRecorder = () => {
+  const get = useThree((state) => state.get)
+  const frameloop = useThree((state) => state.frameloop)
+  const recording = useRecorderStore((state) => state.status === 'recording')
+  // Switching to 'never' resets the r3f clock to 0, so timestamps below are relative to the start of the recording
+  const ready = recording && frameloop === 'never'
+
+  useEffect(() => {
+    if (!ready) {
+      return
+    }
+
+    const record = async () => {
+      const state = get()
+      const canvas = state.gl.domElement
+      const { format, fps, duration, filename, setProgress, setStatus } = useRecorderStore.getState()
+      const frames = Math.max(1, Math.round(duration * fps))
+
+      const clock = useClockStore.getState()
+      const wasPaused = clock.paused
+      clock.play()
+
+      const restoreTime = followClock()
+
+      try {
+        const sink =
+          format === 'webm'
+            ? await createWebMSink({ width: canvas.width, height: canvas.height, fps })
+            : createPngSequenceSink()
+
+        setProgress(0, frames)
+
+        for (let i = 0; i < frames; i++) {
+          if (useRecorderStore.getState().status !== 'recording') {
+            break
+          }
+
+          // The first frame has a delta of 0, so it shows the clock's current time
+          state.advance(i / fps)
+          await sink.addFrame(canvas, i)
+          setProgress(i + 1, frames)
+        }
+
+        setStatus('encoding')
+        const blob = await sink.finalize()
+        downloadBlob(blob, `${filename}-${fps}fps.${sink.extension}`)
+        setStatus('idle')
+      } catch (error) {
+        console.error('Recording failed:', error)
+        setStatus('idle', error instanceof Error ? error.message : String(error))
+      } finally {
+        restoreTime()
+
+        if (wasPaused) {
+          useClockStore.getState().pause()
+        }
+      }
+    }
+
+    record()
+  }, [ready, get])
+
+  return null
+}
@@ -0,0 +1,163 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useMemo, useState } from 'react'
+import { float, uniform, type NodeRepresentation } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import { useClockStore } from '@/stores/clock_store'
+import { transitions as transitionLibrary, type TransitionName } from '@/tsl/transitions/transitions'
+import { getPlaylistPosition } from '@/utils/playlist'
+import {
+  createSketchMaterial,
+  diagnoseSketch,
+  precompileMaterials,
+  toBuildDiagnostic,
+  type ShaderDiagnostic,
+} from '@/utils/shader_diagnostics'
+
+/**
+ * One sketch of a playlist, built with its params.
+ */
+export type PlaylistSlide = {
+  path: string
+  node: NodeRepresentation
+  duration: number
+}
+
+type PlaylistSketchProps = {
+  slides: PlaylistSlide[]
+  /** Taken in turns, the first one out of the first slide */
+  transitions: TransitionName[]
+  /** Seconds each transition takes */
+  transitionDuration: number
+  /** Called with the slides left out because they didn't compile, once the rest are ready to play */
+  onReady?: (skipped: { path: string; diagnostic: ShaderDiagnostic }[]) => void
+}
+
+type PlaylistMeshes = {
+  durations: number[]
+  /** A mesh per slide, shown on its own */
+  slides: THREE.Mesh[]
+  /** A mesh per slide, transitioning out of it into the next one */
+  transitions: THREE.Mesh[]
+}
+
+const disposeMeshes = ({ slides, transitions }: PlaylistMeshes) => {
+  for (const mesh of [...slides, ...transitions]) {
+    ;(mesh.material as THREE.Material).dispose()
+  }
+}
+
+/**
+ * PlaylistSketch
+ *
+ * Plays slides one after the other on the sketch clock, looping forever, with a transition between each pair.
+ * Every slide and every transition gets its own material, built and compiled before anything plays, so switching is
+ * only a matter of which mesh is visible. New slides (e.g. after a hot update) are prepared the same way while the
+ * previous ones keep playing.
+ *
+ * @returns {JSX.Element}
+ */
+export const PlaylistSketch = ({ slides, transitions, transitionDuration, onReady }: PlaylistSketchProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as THREE.WebGPURenderer
+  const scene = useThree((state) => state.scene) as unknown as THREE.Scene
+  const { width, height } = useThree((state) => state.viewport)
+
+  const progress = useMemo(() => uniform(0), [])
+  const geometry = useMemo(() => new THREE.PlaneGeometry(1, 1), [])
+  const [meshes, setMeshes] = useState<PlaylistMeshes | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const prepare = async () => {
+      const playable: PlaylistSlide[] = []
+      const skipped: { path: string; diagnostic: ShaderDiagnostic }[] = []
+
+      for (const slide of slides) {
+        const diagnostic = await diagnoseSketch(renderer, { colorNode: slide.node }).catch(toBuildDiagnostic)
+        if (cancelled) {
+          return
+        }
+
+        if (diagnostic) {
+          skipped.push({ path: slide.path, diagnostic })
+        } else {
+          playable.push(slide)
+        }
+      }
+
+      const createMesh = (colorNode: NodeRepresentation) => {
+        const mesh = new THREE.Mesh(geometry, createSketchMaterial({ colorNode }))
+        mesh.visible = false
+        return mesh
+      }
+
+      const next: PlaylistMeshes = {
+        durations: playable.map(({ duration }) => duration),
+        slides: playable.map(({ node }) => createMesh(node)),
+        transitions:
+          playable.length > 1
+            ? playable.map((slide, index) => {
+                const transition = transitionLibrary[transitions[index % transitions.length]]
+                const to = playable[(index + 1) % playable.length]
+
+                // The index keeps noise based transitions from repeating the same pattern
+                return createMesh(transition({ from: slide.node, to: to.node, progress, seed: float(index) }))
+              })
+            : [],
+      }
+
+      const materials = [...next.slides, ...next.transitions].map((mesh) => mesh.material as THREE.Material)
+      await precompileMaterials(renderer, materials, scene)
+
+      if (cancelled) {
+        disposeMeshes(next)
+        return
+      }
+
+      setMeshes(next)
+      onReady?.(skipped)
+    }
+
+    prepare().catch((error) => console.error('Failed to prepare the playlist:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [renderer, scene, slides, transitions])
+
+  useEffect(() => {
+    if (!meshes) {
+      return
+    }
+
+    return () => disposeMeshes(meshes)
+  }, [meshes])
+
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  useFrame(() => {
+    if (!meshes) {
+      return
+    }
+
+    const { time } = useClockStore.getState()
+    const position = getPlaylistPosition(meshes.durations, transitionDuration, time)
+    const transitioning = position.progress > 0
+
+    progress.value = position.progress
+    meshes.slides.forEach((mesh, index) => (mesh.visible = !transitioning && index === position.index))
+    meshes.transitions.forEach((mesh, index) => (mesh.visible = transitioning && index === position.index))
+  })
+
+  if (!meshes) {
+    return null
+  }
+
+  return (
+    <group scale={[width, height, 1]}>
+      {[...meshes.slides, ...meshes.transitions].map((mesh) => (
+        <primitive key={mesh.uuid} object={mesh} />
+      ))}
+    </group>
+  )
+}
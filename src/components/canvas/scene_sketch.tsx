@@ -0,0 +1,120 @@
+import { OrbitControls, PerspectiveCamera } from '@react-three/drei'
+import { useThree } from '@react-three/fiber'
+import { useEffect, useRef, useState, type ComponentType } from 'react'
+import * as THREE from 'three/webgpu'
+import { diagnoseMaterial, toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import type { SceneSketchProps, SketchCamera } from '@/utils/sketch_module'
+import type { SketchUniforms } from '@/utils/sketch_params'
+
+type SceneSketchComponentProps = {
+  /** The scene sketch's default export */
+  component: ComponentType<SceneSketchProps>
+  uniforms: SketchUniforms
+  camera?: SketchCamera
+  /** Called with `null` once every node material of the scene compiles, or with the first error */
+  onResult?: (diagnostic: ShaderDiagnostic | null) => void
+}
+
+const DEFAULT_POSITION: [number, number, number] = [0, 0, 5]
+const ORIGIN: [number, number, number] = [0, 0, 0]
+
+/**
+ * Every node material in `object`, with the geometry of the first mesh using it.
+ */
+const collectNodeMaterials = (object: THREE.Object3D) => {
+  const materials = new Map<THREE.Material, THREE.BufferGeometry>()
+
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) {
+      return
+    }
+
+    for (const material of [child.material].flat() as THREE.Material[]) {
+      if ((material as THREE.NodeMaterial).isNodeMaterial && !materials.has(material)) {
+        materials.set(material, child.geometry)
+      }
+    }
+  })
+
+  return materials
+}
+
+/**
+ * SketchPerspectiveCamera
+ *
+ * The default camera of scene and compute sketches, with orbit controls if `camera.controls` is set.
+ *
+ * @returns {JSX.Element}
+ */
+export const SketchPerspectiveCamera = ({ camera = {} }: { camera?: SketchCamera }) => {
+  const { position = DEFAULT_POSITION, target = ORIGIN, fov = 50, near = 0.1, far = 100, controls = false } = camera
+  const renderer = useThree((state) => state.gl)
+
+  return (
+    <>
+      <PerspectiveCamera
+        makeDefault
+        position={position}
+        fov={fov}
+        near={near}
+        far={far}
+        onUpdate={(self) => self.lookAt(...target)}
+      />
+      {controls ? <OrbitControls makeDefault target={target} domElement={renderer.domElement} /> : null}
+    </>
+  )
+}
+
+/**
+ * SceneSketch
+ *
+ * Renders a scene sketch (see `SketchKind`): its component, a perspective camera and optionally orbit controls.
+ * The scene stays hidden until its node materials compiled offscreen (see `diagnoseMaterial`), as a material that
+ * throws while rendering would stop the render loop. Materials created after mounting are not checked.
+ * Remount it (e.g. through `key`) to check a new component. Needs `WebGPUScene` with `orthographic={false}`.
+ *
+ * @returns {JSX.Element}
+ */
+export const SceneSketch = ({ component: Component, uniforms, camera, onResult }: SceneSketchComponentProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as THREE.WebGPURenderer
+  const group = useRef<THREE.Group>(null)
+  const [checked, setChecked] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const check = async () => {
+      for (const [material, geometry] of collectNodeMaterials(group.current!)) {
+        const diagnostic = await diagnoseMaterial(renderer, material, geometry)
+        if (diagnostic) {
+          return diagnostic
+        }
+      }
+
+      return null
+    }
+
+    check()
+      .catch(toBuildDiagnostic)
+      .then((diagnostic) => {
+        if (!cancelled) {
+          setChecked(!diagnostic)
+          onResult?.(diagnostic)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [renderer])
+
+  return (
+    <>
+      <SketchPerspectiveCamera camera={camera} />
+
+      <group ref={group} visible={checked}>
+        <Component uniforms={uniforms} />
+      </group>
+    </>
+  )
+}
@@ -0,0 +1,43 @@
+import { useThree } from '@react-three/fiber'
+import { useEffect } from 'react'
+import type { NodeRepresentation } from 'three/tsl'
+import type { WebGPURenderer } from 'three/webgpu'
+import { diagnoseSketch, toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+
+type ShaderCheckProps = {
+  colorNode: NodeRepresentation
+  emissiveNode?: NodeRepresentation
+  /** Called with `null` once the nodes compile, or with the first error */
+  onResult: (diagnostic: ShaderDiagnostic | null) => void
+}
+
+/**
+ * ShaderCheck
+ *
+ * Compiles a sketch's nodes offscreen whenever they change and reports the result (see `diagnoseSketch`).
+ * Mount the sketch itself only once the check passed: a node graph that throws while rendering would otherwise
+ * stop the render loop.
+ *
+ * @returns {null}
+ */
+export const ShaderCheck = ({ colorNode, emissiveNode, onResult }: ShaderCheckProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as WebGPURenderer
+
+  useEffect(() => {
+    let cancelled = false
+
+    diagnoseSketch(renderer, { colorNode, emissiveNode })
+      .catch(toBuildDiagnostic)
+      .then((diagnostic) => {
+        if (!cancelled) {
+          onResult(diagnostic)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [renderer, colorNode, emissiveNode])
+
+  return null
+}
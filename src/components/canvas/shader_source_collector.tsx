@@ -0,0 +1,84 @@
+import { useThree } from '@react-three/fiber'
+import { useEffect } from 'react'
+import type { NodeRepresentation } from 'three/tsl'
+import { NodeMaterial, type WebGPURenderer } from 'three/webgpu'
+import { useShaderInspectorStore, type ShaderSource } from '@/stores/shader_inspector_store'
+import type { PostProcessingPass } from '@/tsl/post_processing/post_processing'
+import { createSketchMaterial, getMaterialShaders, getShaderLanguage } from '@/utils/shader_diagnostics'
+
+type ShaderSourceCollectorProps = {
+  colorNode: NodeRepresentation
+  emissiveNode?: NodeRepresentation
+  /** Enabled post-processing passes, see `PostProcessing`'s `onPasses` */
+  passes?: PostProcessingPass[]
+}
+
+const collectShaderSources = async (
+  renderer: WebGPURenderer,
+  nodes: { colorNode: NodeRepresentation; emissiveNode?: NodeRepresentation },
+  passes: PostProcessingPass[],
+): Promise<ShaderSource[]> => {
+  const language = getShaderLanguage(renderer)
+  const sources: ShaderSource[] = []
+
+  const sketchMaterial = createSketchMaterial(nodes)
+  try {
+    sources.push({ name: 'Sketch', language, ...(await getMaterialShaders(renderer, sketchMaterial)) })
+  } finally {
+    sketchMaterial.dispose()
+  }
+
+  // Passes are drawn as fullscreen quads, so the pass node becomes the fragment output as-is
+  for (const { name, node } of passes) {
+    const passMaterial = new NodeMaterial()
+    passMaterial.fragmentNode = node
+    try {
+      sources.push({ name, language, ...(await getMaterialShaders(renderer, passMaterial)) })
+    } finally {
+      passMaterial.dispose()
+    }
+  }
+
+  return sources
+}
+
+/**
+ * ShaderSourceCollector
+ *
+ * While the shader inspector is open, builds the sketch and each post-processing pass offscreen and publishes the
+ * generated vertex and fragment code to `useShaderInspectorStore`. Rebuilds whenever the nodes or passes change.
+ *
+ * @returns {null}
+ */
+export const ShaderSourceCollector = ({ colorNode, emissiveNode, passes = [] }: ShaderSourceCollectorProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as WebGPURenderer
+  const open = useShaderInspectorStore((state) => state.open)
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    let cancelled = false
+    const { setSources, setStatus } = useShaderInspectorStore.getState()
+
+    setStatus('loading')
+    collectShaderSources(renderer, { colorNode, emissiveNode }, passes)
+      .then((sources) => {
+        if (!cancelled) {
+          setSources(sources)
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setStatus('error', error instanceof Error ? error.message : String(error))
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, renderer, colorNode, emissiveNode, passes])
+
+  return null
+}
@@ -0,0 +1,27 @@
+import { useThree } from '@react-three/fiber'
+import { useEffect } from 'react'
+import { Color } from 'three/webgpu'
+
+/**
+ * TransparentBackground
+ *
+ * Clears the canvas to transparent black instead of opaque, so the page behind it shows through wherever the sketch
+ * outputs an alpha below 1. Restores the previous clear color on unmount.
+ *
+ * @returns {null}
+ */
+export const TransparentBackground = () => {
+  const gl = useThree((state) => state.gl)
+
+  useEffect(() => {
+    const previousColor = gl.getClearColor(new Color())
+    const previousAlpha = gl.getClearAlpha()
+    gl.setClearColor(0x000000, 0)
+
+    return () => {
+      gl.setClearColor(previousColor, previousAlpha)
+    }
+  }, [gl])
+
+  return null
+}
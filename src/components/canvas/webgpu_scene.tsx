@@ -4,11 +4,23 @@ import { AdaptiveDpr, Preload, StatsGl, OrthographicCamera } from '@react-three/
 
 import { useState } from 'react'
 
-import { WebGPURenderer } from 'three/webgpu'
+import { useRecorderStore } from '@/stores/recorder_store'
+
+import {
+  createRenderer,
+  getActiveBackend,
+  RENDERER_BACKEND_LABELS,
+  type ActiveRendererBackend,
+  type RendererBackend,
+} from '@/utils/renderer_backend'
 import { ColorSpaceCorrection } from './color_space_correction'
+import { AudioDriver } from './audio_driver'
+import { ClockDriver } from './clock_driver'
+import { FrameRecorder } from './frame_recorder'
 
 type SceneProps = {
   debug?: boolean
+  backend?: RendererBackend
   frameloop?: 'always' | 'demand' | 'never'
 } & any
 
@@ -18,49 +30,87 @@ type SceneProps = {
  * Renders a three.js scene using the WebGPURenderer inside a @react-three/fiber Canvas.
  *
  * @param {SceneProps} props - Scene configuration props
- * @param {boolean} [props.debug=false] - Show WebGL stats overlay
+ * @param {boolean} [props.debug=false] - Show WebGL stats overlay and the active backend
+ * @param {'auto'|'webgpu'|'webgl'} [props.backend='auto'] - Renderer backend (see `RendererBackend`). Changing it needs a remount, e.g. through `key`
  * @param {'always'|'demand'|'never'} [props.frameloop='always'] - Canvas render loop mode
- * @param {boolean} [props.orthographic=false] - Use orthographic camera (not currently used)
+ * @param {boolean} [props.orthographic=true] - Use the orthographic camera fullscreen sketches are drawn with. Scene and compute sketches set this to `false` and bring their own camera (see `SketchPerspectiveCamera`)
  * @param {React.ReactNode} props.children - Scene children
  * @returns {JSX.Element}
  *
  * Notes:
- * - Uses WebGPURenderer (three.js) for next-gen rendering
+ * - Uses WebGPURenderer (three.js) for next-gen rendering, falling back to its WebGL2 backend
+ * - Renderer creation errors are rethrown during render, so the nearest error boundary can show them
  * - Handles color space and tone mapping for WebGPU
+ * - Drives the sketch clock (`clockTime`)
+ * - Drives the audio uniforms from the current audio source (see `useAudioStore`)
+ * - Records fixed-timestep frame sequences on request (see `useRecorderStore`), stopping the render loop meanwhile
  * - Preloads assets and adapts DPR
  */
-const WebGPUScene = ({ debug = false, frameloop = 'always', orthographic = false, children, ...props }: SceneProps) => {
+const WebGPUScene = ({
+  debug = false,
+  backend = 'auto',
+  frameloop = 'always',
+  orthographic = true,
+  children,
+  ...props
+}: SceneProps) => {
   const [canvasFrameloop, setCanvasFrameloop] = useState<'always' | 'demand' | 'never'>('never')
+  const [activeBackend, setActiveBackend] = useState<ActiveRendererBackend | null>(null)
+  const [error, setError] = useState<unknown>(null)
+  // The recorder steps frames itself; set here rather than on the r3f state, as the Canvas reapplies its props
+  const recording = useRecorderStore((state) => state.status !== 'idle')
+
+  // The Canvas doesn't surface errors from the `gl` factory, so they are rethrown from here
+  if (error) {
+    throw error
+  }
 
   return (
-    <Canvas
-      id='__webgpucanvas'
-      // TODO: flat and linear together breaks webgpu renderer
-      // flat // Uses NoToneMapping as opposed to ACESFilmicToneMapping
-      // linear // Disables automatic sRGB color space and gamma correction
-      {...props}
-      frameloop={canvasFrameloop}
-      gl={async (props) => {
-        const renderer = new WebGPURenderer(props as any)
+    <>
+      <Canvas
+        id='__webgpucanvas'
+        // TODO: flat and linear together breaks webgpu renderer
+        // flat // Uses NoToneMapping as opposed to ACESFilmicToneMapping
+        // linear // Disables automatic sRGB color space and gamma correction
+        {...props}
+        frameloop={recording ? 'never' : canvasFrameloop}
+        gl={async (props) => {
+          try {
+            const renderer = await createRenderer(props as any, backend)
+
+            setActiveBackend(getActiveBackend(renderer))
+            setCanvasFrameloop(frameloop)
+
+            return renderer
+          } catch (error) {
+            setError(error)
+            throw error
+          }
+        }}
+      >
+        <Preload all />
+
+        <AdaptiveDpr />
+
+        {children}
 
-        await renderer.init()
-        setCanvasFrameloop(frameloop)
+        <ColorSpaceCorrection />
 
-        return renderer
-      }}
-    >
-      <Preload all />
+        <ClockDriver />
 
-      <AdaptiveDpr />
+        <AudioDriver />
 
-      {children}
+        <FrameRecorder />
 
-      <ColorSpaceCorrection />
+        {debug ? <StatsGl className='fragments-supply__statsgl' /> : null}
 
-      {debug ? <StatsGl className='fragments-supply__statsgl' /> : null}
+        {orthographic ? <OrthographicCamera makeDefault position={[0, 0, 1]} /> : null}
+      </Canvas>
 
-      <OrthographicCamera makeDefault position={[0, 0, 1]} />
-    </Canvas>
+      {debug && activeBackend ? (
+        <div className='fragments-boilerplate__backend'>{RENDERER_BACKEND_LABELS[activeBackend]}</div>
+      ) : null}
+    </>
   )
 }
 
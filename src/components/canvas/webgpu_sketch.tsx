@@ -1,21 +1,29 @@
 import { useFrame, useThree, RootState } from '@react-three/fiber'
 import { MeshBasicNodeMaterial } from 'three/webgpu'
-import { sin, time, uv, vec3, NodeRepresentation } from 'three/tsl'
-import { ReactNode } from 'react'
+import { sin, uv, vec3, NodeRepresentation } from 'three/tsl'
+import { clockTime } from '@/tsl/time/clock_time'
+import { ReactNode, useEffect, useLayoutEffect, useMemo } from 'react'
 
 /**
  * Template implementation for a WebGPU sketch mesh.
  * @param {Object} props
- * @param {NodeRepresentation} [props.colorNode] - Node for color, defaults to vec3(uv, sin(time)).
+ * @param {NodeRepresentation} [props.colorNode] - Node for color, defaults to vec3(uv, sin(clockTime)).
+ * @param {NodeRepresentation} [props.emissiveNode] - Optional node added to the color and written to the emissive MRT target.
  * @param {(material: MeshBasicNodeMaterial, state: RootState) => void} [props.onFrame] - Optional frame callback.
  * @returns {JSX.Element}
  */
-const TemplateImpl = ({ colorNode, onFrame }) => {
-  const s = new MeshBasicNodeMaterial({ transparent: true })
-  const _uv = uv()
+const TemplateImpl = ({ colorNode, emissiveNode, onFrame }) => {
+  // One material for the lifetime of the mesh; new nodes (e.g. after a hot update) are swapped into it
+  const s = useMemo(() => new MeshBasicNodeMaterial({ transparent: true }), [])
+  const _colorNode = useMemo(() => (colorNode ? colorNode : vec3(uv(), sin(clockTime))), [colorNode])
 
-  const _colorNode = colorNode ? colorNode : vec3(_uv, sin(time))
-  s.colorNode = _colorNode
+  useLayoutEffect(() => {
+    s.colorNode = _colorNode
+    s.emissiveNode = emissiveNode ?? null
+    s.needsUpdate = true
+  }, [s, _colorNode, emissiveNode])
+
+  useEffect(() => () => s.dispose(), [s])
 
   const { width, height } = useThree((state) => state.viewport)
 
@@ -36,11 +44,13 @@ const TemplateImpl = ({ colorNode, onFrame }) => {
  * Props for the WebGPUSketch component.
  * @typedef {Object} WebGPUSketchProps
  * @property {NodeRepresentation} [colorNode] - Node for color.
+ * @property {NodeRepresentation} [emissiveNode] - Node for emissive, e.g. to drive `bloomEffect` with `source: 'emissive'`.
  * @property {(material: MeshBasicNodeMaterial, state: RootState) => void} [onFrame] - Frame callback.
  * @property {ReactNode} [children] - Optional children.
  */
 export type WebGPUSketchProps = {
   colorNode?: NodeRepresentation
+  emissiveNode?: NodeRepresentation
   onFrame?: (material: MeshBasicNodeMaterial, state: RootState) => void
   children?: ReactNode
 }
@@ -50,6 +60,13 @@ export type WebGPUSketchProps = {
  * @param {WebGPUSketchProps} props
  * @returns {JSX.Element}
  */
-export const WebGPUSketch = ({ colorNode = undefined, onFrame = undefined, children }: WebGPUSketchProps) => {
-  return <>{children ? children : <TemplateImpl colorNode={colorNode} onFrame={onFrame} />}</>
+export const WebGPUSketch = ({
+  colorNode = undefined,
+  emissiveNode = undefined,
+  onFrame = undefined,
+  children,
+}: WebGPUSketchProps) => {
+  return (
+    <>{children ? children : <TemplateImpl colorNode={colorNode} emissiveNode={emissiveNode} onFrame={onFrame} />}</>
+  )
 }
@@ -0,0 +1,82 @@
+import { useRef, type CSSProperties, type KeyboardEvent, type PointerEvent } from 'react'
+import { clamp } from '@/utils/math'
+import './index.css'
+
+type CompareDividerProps = {
+  /** From 0 (left edge) to 1 (right edge) */
+  position: number
+  /** Whether the line can be moved. A fixed line is only drawn */
+  draggable?: boolean
+  /** Called continuously while dragging */
+  onChange?: (position: number) => void
+  /** Called once a drag or a key press ends, e.g. to save the position */
+  onCommit?: (position: number) => void
+}
+
+const KEYBOARD_STEP = 0.01
+
+/**
+ * The vertical line between the two sides of a comparison. When draggable, it follows the pointer and the arrow keys.
+ * Covers the whole viewport, like the canvas it sits on.
+ */
+export function CompareDivider({ position, draggable = false, onChange, onCommit }: CompareDividerProps) {
+  const dragging = useRef(false)
+
+  const getPosition = (event: PointerEvent<HTMLDivElement>) => clamp(0, event.clientX / window.innerWidth, 1)
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    dragging.current = true
+    event.currentTarget.setPointerCapture(event.pointerId)
+    onChange?.(getPosition(event))
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragging.current) {
+      onChange?.(getPosition(event))
+    }
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragging.current) {
+      dragging.current = false
+      onCommit?.(getPosition(event))
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? KEYBOARD_STEP * 10 : KEYBOARD_STEP
+    const delta = event.key === 'ArrowLeft' ? -step : event.key === 'ArrowRight' ? step : 0
+    if (delta) {
+      event.preventDefault()
+      const next = clamp(0, position + delta, 1)
+      onChange?.(next)
+      onCommit?.(next)
+    }
+  }
+
+  const style = { '--compare-position': `${position * 100}%` } as CSSProperties
+
+  if (!draggable) {
+    return <div className='compare-divider' style={style} aria-hidden />
+  }
+
+  return (
+    <div
+      className='compare-divider compare-divider--draggable'
+      style={style}
+      role='slider'
+      tabIndex={0}
+      aria-label='Wipe position'
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(position * 100)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+    >
+      <div className='compare-divider__handle' />
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import type { CompareMode } from '@/utils/sketch_search'
+import { sketches } from '@/utils/sketch_registry'
+import './index.css'
+
+const MODES: { mode: CompareMode; label: string }[] = [
+  { mode: 'split', label: 'Split' },
+  { mode: 'wipe', label: 'Wipe' },
+  { mode: 'difference', label: 'Difference' },
+]
+
+type CompareToolbarProps = {
+  a: string
+  b: string
+  mode: CompareMode
+  onChange: (changes: { a?: string; b?: string; mode?: CompareMode }) => void
+  /** Exchanges the sketches and their params */
+  onSwap: () => void
+}
+
+/**
+ * Picks the two sketches of a comparison and how they are shown.
+ */
+export function CompareToolbar({ a, b, mode, onChange, onSwap }: CompareToolbarProps) {
+  return (
+    <div className='compare-toolbar' role='group' aria-label='Comparison'>
+      <select
+        className='compare-toolbar__select'
+        aria-label='Left sketch'
+        value={a}
+        onChange={(event) => onChange({ a: event.target.value })}
+      >
+        {sketches.map(({ path }) => (
+          <option key={path} value={path}>
+            A · {path}
+          </option>
+        ))}
+      </select>
+
+      <button className='compare-toolbar__button' onClick={onSwap} aria-label='Swap sketches'>
+        ⇄
+      </button>
+
+      <select
+        className='compare-toolbar__select'
+        aria-label='Right sketch'
+        value={b}
+        onChange={(event) => onChange({ b: event.target.value })}
+      >
+        {sketches.map(({ path }) => (
+          <option key={path} value={path}>
+            B · {path}
+          </option>
+        ))}
+      </select>
+
+      <div className='compare-toolbar__modes' role='radiogroup' aria-label='Mode'>
+        {MODES.map(({ mode: value, label }) => (
+          <button
+            key={value}
+            className='compare-toolbar__button'
+            role='radio'
+            aria-checked={mode === value}
+            onClick={() => onChange({ mode: value })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
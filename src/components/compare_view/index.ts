@@ -0,0 +1,2 @@
+export { CompareDivider } from './compare_divider'
+export { CompareToolbar } from './compare_toolbar'
@@ -0,0 +1 @@
+export { InputDrop } from './input_drop'
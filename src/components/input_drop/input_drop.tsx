@@ -0,0 +1,188 @@
+import { useEffect, useRef, useState } from 'react'
+import { cn } from '@/utils/cn'
+import { getInputForFile, type SketchInputs } from '@/utils/sketch_inputs'
+import type { SketchInputSources } from '@/utils/use_sketch_inputs'
+import './index.css'
+
+type InputDropProps = {
+  inputs?: SketchInputs
+  /** Name of the source each input shows */
+  sources?: SketchInputSources
+  /** Replaces the input `name` with `file`, rejecting if it doesn't load */
+  onDrop?: (name: string, file: File) => Promise<void>
+  /** Adds a zone for the source of the audio uniforms */
+  audio?: {
+    /** Name of the current source */
+    source?: string
+    /** Plays `file`, rejecting if it doesn't */
+    onDrop: (file: File) => Promise<void>
+  }
+}
+
+type DropZone = {
+  name: string
+  label: string
+  /** `image`, `video` or `audio`, matched against the first part of dragged files' MIME types */
+  type: string
+  source?: string
+}
+
+/** How long a failed drop's message shows, in milliseconds */
+const ERROR_DURATION = 4000
+
+// Key of the audio zone, which can't clash with input names as it isn't a valid identifier
+const AUDIO_ZONE = 'audio zone'
+
+const isFileDrag = (event: DragEvent) => {
+  return Boolean(event.dataTransfer?.types.includes('Files'))
+}
+
+/** The input types of the files being dragged; browsers only tell their MIME types until they are dropped */
+const getDraggedTypes = (event: DragEvent) => {
+  const types = Array.from(event.dataTransfer?.items ?? [], ({ type }) => type.split('/')[0])
+  return new Set(types)
+}
+
+/**
+ * Lets image and video files be dropped onto the page to replace a sketch's inputs, and audio files to drive the
+ * audio uniforms. While files are dragged over the window, it shows a zone per input, plus one for audio: dropping on
+ * one replaces that input, dropping anywhere else replaces the first input of the file's type.
+ */
+export function InputDrop({ inputs = {}, sources = {}, onDrop, audio }: InputDropProps) {
+  const [dragged, setDragged] = useState<Set<string> | null>(null)
+  const [over, setOver] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const depth = useRef(0)
+
+  useEffect(() => {
+    // `dragenter` and `dragleave` fire for every element crossed, so leaving the window is counted
+    const onDragEnter = (event: DragEvent) => {
+      if (!isFileDrag(event)) {
+        return
+      }
+
+      depth.current += 1
+      setDragged(getDraggedTypes(event))
+    }
+
+    const onDragLeave = (event: DragEvent) => {
+      if (!isFileDrag(event)) {
+        return
+      }
+
+      depth.current = Math.max(0, depth.current - 1)
+      if (depth.current === 0) {
+        setDragged(null)
+      }
+    }
+
+    // Without this, the browser opens dropped files in place of the page
+    const onDragOver = (event: DragEvent) => {
+      if (isFileDrag(event)) {
+        event.preventDefault()
+      }
+    }
+
+    const onDrop = (event: DragEvent) => {
+      if (isFileDrag(event)) {
+        event.preventDefault()
+      }
+      depth.current = 0
+      setDragged(null)
+      setOver(null)
+    }
+
+    window.addEventListener('dragenter', onDragEnter)
+    window.addEventListener('dragleave', onDragLeave)
+    window.addEventListener('dragover', onDragOver)
+    window.addEventListener('drop', onDrop)
+
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter)
+      window.removeEventListener('dragleave', onDragLeave)
+      window.removeEventListener('dragover', onDragOver)
+      window.removeEventListener('drop', onDrop)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!error) {
+      return
+    }
+
+    const timeout = setTimeout(() => setError(null), ERROR_DURATION)
+    return () => clearTimeout(timeout)
+  }, [error])
+
+  const drop = (event: React.DragEvent, name?: string) => {
+    // Zones stop the event before it reaches the window's listener
+    event.preventDefault()
+    depth.current = 0
+    setDragged(null)
+    setOver(null)
+
+    const file = event.dataTransfer.files[0]
+    if (!file) {
+      return
+    }
+
+    const failed = () => setError(`${file.name} failed to load`)
+
+    if (audio && file.type.startsWith('audio/') && (!name || name === AUDIO_ZONE)) {
+      setError(null)
+      audio.onDrop(file).catch(failed)
+      return
+    }
+
+    const target = getInputForFile(inputs, file, name)
+    if (!target || !onDrop) {
+      setError(`${file.name} is not a file this sketch takes`)
+      return
+    }
+
+    setError(null)
+    onDrop(target, file).catch(failed)
+  }
+
+  const zones: DropZone[] = Object.entries(inputs).map(([name, input]) => {
+    return { name, label: input.label ?? name, type: input.type, source: sources[name] }
+  })
+  if (audio) {
+    zones.push({ name: AUDIO_ZONE, label: 'Audio', type: 'audio', source: audio.source })
+  }
+
+  if (!dragged) {
+    return error ? (
+      <p className='input-drop__error' role='alert'>
+        {error}
+      </p>
+    ) : null
+  }
+
+  return (
+    <div className='input-drop' onDrop={(event) => drop(event)}>
+      {zones.map(({ name, label, type, source }) => {
+        return (
+          <div
+            key={name}
+            className={cn(
+              'input-drop__zone',
+              over === name && 'input-drop__zone--active',
+              !dragged.has(type) && 'input-drop__zone--disabled',
+            )}
+            onDragEnter={() => setOver(name)}
+            onDragLeave={() => setOver((current) => (current === name ? null : current))}
+            onDrop={(event) => {
+              event.stopPropagation()
+              drop(event, name)
+            }}
+          >
+            <p className='input-drop__label'>{label}</p>
+            <p className='input-drop__detail'>{type}</p>
+            <p className='input-drop__detail'>{source ?? 'Nothing loaded'}</p>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
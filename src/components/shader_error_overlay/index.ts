@@ -0,0 +1 @@
+export { ShaderErrorOverlay } from './shader_error_overlay'
@@ -0,0 +1,76 @@
+import type { ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import './index.css'
+
+type ShaderErrorOverlayProps = {
+  diagnostic: ShaderDiagnostic
+  /** Source file of the sketch, e.g. `src/sketches/nested/dawn-1.ts` */
+  filePath: string
+  onRetry?: () => void
+}
+
+/** Stack frames beyond this are rarely useful for sketch errors */
+const MAX_STACK_LINES = 8
+
+const getTitle = ({ kind, stage, language }: ShaderDiagnostic) => {
+  if (kind === 'build') {
+    return 'Node build error'
+  }
+
+  return `${language ?? 'Shader'} compile error${stage ? ` (${stage} stage)` : ''}`
+}
+
+/**
+ * Shows why a sketch failed to build or compile: the message, the sketch's file path and, for compile errors,
+ * the offending lines of the generated shader. It goes away by itself once the sketch compiles again.
+ */
+export function ShaderErrorOverlay({ diagnostic, filePath, onRetry }: ShaderErrorOverlayProps) {
+  const { message, line, column, excerpt, stack } = diagnostic
+  const gutterWidth = String(excerpt?.[excerpt.length - 1]?.number ?? 0).length
+
+  return (
+    <div className='shader-error' role='alert'>
+      <div className='shader-error__panel'>
+        <p className='shader-error__title'>{getTitle(diagnostic)}</p>
+        <p className='shader-error__path'>
+          {filePath}
+          {line ? (
+            <span className='shader-error__location'>
+              {' '}
+              · generated line {line}
+              {column ? `:${column}` : ''}
+            </span>
+          ) : null}
+        </p>
+
+        <pre className='shader-error__message'>{message}</pre>
+
+        {excerpt ? (
+          <pre className='shader-error__source'>
+            {excerpt.map(({ number, text, error }) => (
+              <div
+                key={number}
+                className={error ? 'shader-error__line shader-error__line--error' : 'shader-error__line'}
+              >
+                <span className='shader-error__gutter'>{String(number).padStart(gutterWidth, ' ')}</span>
+                {text}
+                {error && column ? (
+                  <div className='shader-error__caret'>{`${' '.repeat(gutterWidth + column)}^`}</div>
+                ) : null}
+              </div>
+            ))}
+          </pre>
+        ) : null}
+
+        {stack ? (
+          <pre className='shader-error__stack'>{stack.split('\n').slice(0, MAX_STACK_LINES).join('\n')}</pre>
+        ) : null}
+
+        {onRetry ? (
+          <button className='shader-error__retry' onClick={onRetry}>
+            Retry
+          </button>
+        ) : null}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+export type ShaderTokenType = 'plain' | 'comment' | 'keyword' | 'type' | 'number' | 'function' | 'attribute'
+
+export type ShaderToken = {
+  type: ShaderTokenType
+  text: string
+}
+
+/** Keywords of WGSL and GLSL ES 3.0, close enough to share one list */
+const KEYWORDS = new Set([
+  'alias',
+  'break',
+  'case',
+  'const',
+  'continue',
+  'continuing',
+  'default',
+  'discard',
+  'else',
+  'enable',
+  'false',
+  'flat',
+  'fn',
+  'for',
+  'highp',
+  'if',
+  'in',
+  'inout',
+  'layout',
+  'let',
+  'loop',
+  'lowp',
+  'mediump',
+  'out',
+  'override',
+  'precision',
+  'return',
+  'smooth',
+  'struct',
+  'switch',
+  'true',
+  'uniform',
+  'var',
+  'while',
+])
+
+const TYPE_PATTERN =
+  /^(?:[biu]?vec[234][fhiu]?|mat[234](?:x[234])?[fh]?|f16|f32|i32|u32|bool|float|int|uint|void|array|ptr|atomic|sampler\w*|texture\w*|[iu]?sampler\w+)$/
+
+// Comments, attributes/preprocessor directives, numbers and identifiers. Everything else stays plain
+const TOKEN_PATTERN =
+  /(\/\/.*)|(\/\*)|([@#]\w+)|(\b(?:0x[\da-fA-F]+|\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)[fhiu]?\b)|([A-Za-z_]\w*)/g
+
+const pushToken = (tokens: ShaderToken[], type: ShaderTokenType, text: string) => {
+  if (!text) {
+    return
+  }
+
+  const last = tokens[tokens.length - 1]
+  if (last?.type === type) {
+    last.text += text
+  } else {
+    tokens.push({ type, text })
+  }
+}
+
+/**
+ * Splits generated WGSL or GLSL into highlighted tokens, one array per line. Block comments may span lines.
+ */
+export const highlightShader = (code: string): ShaderToken[][] => {
+  let inBlockComment = false
+
+  return code.split('\n').map((line) => {
+    const tokens: ShaderToken[] = []
+    let index = 0
+
+    while (index < line.length) {
+      if (inBlockComment) {
+        const end = line.indexOf('*/', index)
+        const stop = end === -1 ? line.length : end + 2
+        pushToken(tokens, 'comment', line.slice(index, stop))
+        inBlockComment = end === -1
+        index = stop
+        continue
+      }
+
+      TOKEN_PATTERN.lastIndex = index
+      const match = TOKEN_PATTERN.exec(line)
+      if (!match) {
+        pushToken(tokens, 'plain', line.slice(index))
+        break
+      }
+
+      pushToken(tokens, 'plain', line.slice(index, match.index))
+      index = match.index + match[0].length
+
+      const [text, lineComment, blockComment, attribute, number, identifier] = match
+      if (lineComment) {
+        pushToken(tokens, 'comment', text)
+      } else if (blockComment) {
+        inBlockComment = true
+        pushToken(tokens, 'comment', text)
+      } else if (attribute) {
+        pushToken(tokens, 'attribute', text)
+      } else if (number) {
+        pushToken(tokens, 'number', text)
+      } else if (identifier) {
+        const type = KEYWORDS.has(text)
+          ? 'keyword'
+          : TYPE_PATTERN.test(text)
+            ? 'type'
+            : /^\s*\(/.test(line.slice(index))
+              ? 'function'
+              : 'plain'
+        pushToken(tokens, type, text)
+      }
+    }
+
+    return tokens
+  })
+}
@@ -0,0 +1 @@
+export { ShaderInspector } from './shader_inspector'
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent, type ReactNode } from 'react'
+import { useShaderInspectorStore } from '@/stores/shader_inspector_store'
+import type { ShaderStage } from '@/utils/shader_diagnostics'
+import { highlightShader, type ShaderToken } from './highlight_shader'
+import './index.css'
+
+type SearchMatch = {
+  /** 0-based line index */
+  line: number
+  start: number
+  end: number
+}
+
+const STAGES: ShaderStage[] = ['vertex', 'fragment']
+
+const findMatches = (code: string, query: string): SearchMatch[] => {
+  if (!query) {
+    return []
+  }
+
+  const needle = query.toLowerCase()
+  const matches: SearchMatch[] = []
+
+  code.split('\n').forEach((text, line) => {
+    const haystack = text.toLowerCase()
+    let start = haystack.indexOf(needle)
+    while (start !== -1) {
+      matches.push({ line, start, end: start + needle.length })
+      start = haystack.indexOf(needle, start + needle.length)
+    }
+  })
+
+  return matches
+}
+
+/**
+ * Renders a line's tokens, wrapping the parts covered by search matches in `<mark>`.
+ */
+const renderTokens = (tokens: ShaderToken[], matches: SearchMatch[], active: SearchMatch | undefined) => {
+  const nodes: ReactNode[] = []
+  let offset = 0
+
+  tokens.forEach(({ type, text }, tokenIndex) => {
+    const tokenEnd = offset + text.length
+    let cursor = offset
+
+    // Cut the token at every match boundary inside it
+    for (const match of matches) {
+      if (match.end <= cursor || match.start >= tokenEnd) {
+        continue
+      }
+
+      const start = Math.max(match.start, cursor)
+      const end = Math.min(match.end, tokenEnd)
+      if (start > cursor) {
+        nodes.push(
+          <span key={`${tokenIndex}-${cursor}`} className={`shader-token--${type}`}>
+            {text.slice(cursor - offset, start - offset)}
+          </span>,
+        )
+      }
+
+      nodes.push(
+        <mark
+          key={`${tokenIndex}-${start}-mark`}
+          className={
+            match === active ? 'shader-inspector__match shader-inspector__match--active' : 'shader-inspector__match'
+          }
+        >
+          <span className={`shader-token--${type}`}>{text.slice(start - offset, end - offset)}</span>
+        </mark>,
+      )
+      cursor = end
+    }
+
+    if (cursor < tokenEnd) {
+      nodes.push(
+        <span key={`${tokenIndex}-${cursor}`} className={`shader-token--${type}`}>
+          {text.slice(cursor - offset)}
+        </span>,
+      )
+    }
+
+    offset = tokenEnd
+  })
+
+  return nodes
+}
+
+/**
+ * Shows the generated vertex and fragment code of the active sketch and of each post-processing pass, with syntax
+ * highlighting, search (Enter / Shift+Enter to move between matches) and copy to clipboard.
+ * Sources come from `useShaderInspectorStore`, filled by the scene's `ShaderSourceCollector`.
+ */
+export function ShaderInspector() {
+  const { open, status, sources, error, setOpen } = useShaderInspectorStore()
+  const [selected, setSelected] = useState(0)
+  const [stage, setStage] = useState<ShaderStage>('fragment')
+  const [query, setQuery] = useState('')
+  const [current, setCurrent] = useState(0)
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle')
+  const sourceRef = useRef<HTMLPreElement>(null)
+
+  const source = sources[Math.min(selected, sources.length - 1)]
+  const code = source ? (stage === 'vertex' ? source.vertexShader : source.fragmentShader) : ''
+
+  const lines = useMemo(() => highlightShader(code), [code])
+  const matches = useMemo(() => findMatches(code, query), [code, query])
+  const active = matches.length ? matches[current % matches.length] : undefined
+  const gutterWidth = String(lines.length).length
+
+  useEffect(() => {
+    if (active) {
+      sourceRef.current?.querySelector(`[data-line='${active.line}']`)?.scrollIntoView({ block: 'center' })
+    }
+  }, [active])
+
+  useEffect(() => {
+    if (copyStatus === 'idle') {
+      return
+    }
+
+    const timeout = setTimeout(() => setCopyStatus('idle'), 1500)
+    return () => clearTimeout(timeout)
+  }, [copyStatus])
+
+  if (!open) {
+    return null
+  }
+
+  const moveMatch = (direction: 1 | -1) => {
+    if (matches.length) {
+      setCurrent((current + direction + matches.length) % matches.length)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopyStatus('copied')
+    } catch (error) {
+      console.error('Failed to copy shader:', error)
+      setCopyStatus('failed')
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      moveMatch(event.shiftKey ? -1 : 1)
+    }
+  }
+
+  const matchesByLine = new Map<number, SearchMatch[]>()
+  for (const match of matches) {
+    matchesByLine.set(match.line, [...(matchesByLine.get(match.line) ?? []), match])
+  }
+
+  return (
+    <aside className='shader-inspector' aria-label='Shader inspector' onKeyDown={handleKeyDown}>
+      <div className='shader-inspector__header'>
+        <div className='shader-inspector__tabs' role='tablist' aria-label='Shader sources'>
+          {sources.map(({ name }, index) => (
+            <button
+              key={`${index}-${name}`}
+              role='tab'
+              aria-selected={source === sources[index]}
+              className='shader-inspector__tab'
+              onClick={() => setSelected(index)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <button className='shader-inspector__button' onClick={() => setOpen(false)} aria-label='Close shader inspector'>
+          ×
+        </button>
+      </div>
+
+      <div className='shader-inspector__toolbar'>
+        {STAGES.map((value) => (
+          <button
+            key={value}
+            className='shader-inspector__button'
+            aria-pressed={stage === value}
+            onClick={() => setStage(value)}
+          >
+            {value === 'vertex' ? 'Vertex' : 'Fragment'}
+          </button>
+        ))}
+        {source ? <span className='shader-inspector__language'>{source.language}</span> : null}
+
+        <input
+          className='shader-inspector__search'
+          type='search'
+          placeholder='Search'
+          aria-label='Search shader source'
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value)
+            setCurrent(0)
+          }}
+          onKeyDown={handleSearchKeyDown}
+        />
+        <span className='shader-inspector__count' aria-live='polite'>
+          {query ? (matches.length ? `${(current % matches.length) + 1} / ${matches.length}` : 'No results') : null}
+        </span>
+        <button
+          className='shader-inspector__button'
+          onClick={() => moveMatch(-1)}
+          disabled={!matches.length}
+          aria-label='Previous match'
+        >
+          ↑
+        </button>
+        <button
+          className='shader-inspector__button'
+          onClick={() => moveMatch(1)}
+          disabled={!matches.length}
+          aria-label='Next match'
+        >
+          ↓
+        </button>
+
+        <button className='shader-inspector__button' onClick={handleCopy} disabled={!code}>
+          {copyStatus === 'copied' ? 'Copied' : copyStatus === 'failed' ? 'Copy failed' : 'Copy'}
+        </button>
+      </div>
+
+      {status === 'loading' && !source ? <p className='shader-inspector__status'>Building shaders…</p> : null}
+      {status === 'error' ? <p className='shader-inspector__status shader-inspector__status--error'>{error}</p> : null}
+
+      {source ? (
+        <pre className='shader-inspector__source' ref={sourceRef}>
+          {lines.map((tokens, line) => (
+            <div key={line} data-line={line} className='shader-inspector__line'>
+              <span className='shader-inspector__gutter'>{String(line + 1).padStart(gutterWidth, ' ')}</span>
+              {renderTokens(tokens, matchesByLine.get(line) ?? [], active)}
+            </div>
+          ))}
+        </pre>
+      ) : null}
+    </aside>
+  )
+}
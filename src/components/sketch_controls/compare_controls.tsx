@@ -0,0 +1,71 @@
+import { folder, LevaPanel, useControls, useCreateStore } from 'leva'
+import type { UniformNode } from 'three/webgpu'
+import { useSketchStore } from '@/stores/sketch_store'
+import {
+  toLevaSchema,
+  type SketchParams,
+  type SketchParamValue,
+  type SketchParamValues,
+  type SketchUniforms,
+} from '@/utils/sketch_params'
+
+/**
+ * One side of a comparison.
+ */
+export type CompareSide = {
+  /** Folder title, e.g. `A · nested/dawn-1` */
+  title: string
+  params?: SketchParams
+  uniforms: SketchUniforms
+  values?: SketchParamValues
+  onChange?: (key: string, value: SketchParamValue) => void
+}
+
+export type CompareControlsProps = {
+  a: CompareSide
+  b: CompareSide
+  gain: UniformNode<number>
+  seed?: number
+}
+
+/**
+ * Leva keys have to be unique within a store whatever their folder (and `.` separates folders), so the inputs of each
+ * side are prefixed; their labels stay the param names.
+ */
+const toSideSchema = (prefix: string, { params = {}, uniforms, values, onChange }: CompareSide) => {
+  const schema = toLevaSchema(params, uniforms, { values, onChange })
+
+  return Object.fromEntries(Object.entries(schema).map(([key, input]) => [`${prefix}${key}`, input]))
+}
+
+/**
+ * Renders a panel with the shared seed, the gain of the difference mode and a folder of param inputs per side of a
+ * comparison. Like `SketchControls`, it has a store of its own, as the global one would hand back the last values of
+ * inputs with the same paths, e.g. those of the other side before a swap. Mount with a `key` per pair of sketches (and
+ * swap) so both are rebuilt when either schema changes.
+ */
+export const CompareControls = ({ a, b, gain, seed = 0 }: CompareControlsProps) => {
+  const store = useCreateStore()
+
+  useControls(
+    () => ({
+      seed: {
+        value: seed,
+        step: 1,
+        onChange: (seed: number) => useSketchStore.getState().setSeed(seed),
+      },
+      'difference gain': {
+        value: gain.value,
+        min: 1,
+        max: 64,
+        step: 1,
+        onChange: (value: number) => (gain.value = value),
+      },
+      [a.title]: folder(toSideSchema('a:', a)),
+      [b.title]: folder(toSideSchema('b:', b)),
+    }),
+    { store },
+  )
+
+  return <LevaPanel store={store} />
+}
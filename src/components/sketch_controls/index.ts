@@ -0,0 +1,3 @@
+export * from './sketch_controls'
+export * from './still_export_controls'
+export * from './compare_controls'
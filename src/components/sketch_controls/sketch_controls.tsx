@@ -0,0 +1,57 @@
+import { LevaPanel, useControls, useCreateStore } from 'leva'
+import { useEffect } from 'react'
+import { useSketchStore } from '@/stores/sketch_store'
+import { toLevaSchema, type SketchParams, type SketchParamValues, type SketchUniforms } from '@/utils/sketch_params'
+
+/** A Leva store created with `useCreateStore`, whose panel is rendered by its owner */
+export type LevaStore = ReturnType<typeof useCreateStore>
+
+export type SketchControlsProps = {
+  params?: SketchParams
+  uniforms: SketchUniforms
+  values?: SketchParamValues
+  seed?: number
+  collapsed?: boolean
+  /** Called with the panel's store once mounted, for other controls of the sketch to add folders to */
+  onStore?: (store: LevaStore) => void
+}
+
+/**
+ * Renders a panel with a seed input plus a Leva input per sketch parameter. Inputs write directly into the matching
+ * uniforms and mirror their values into the sketch store. `seed` is therefore a reserved parameter name.
+ *
+ * Sketches share parameter names, and the global Leva store keeps an input's last value for its path, so every panel
+ * has a store of its own. Mount with a `key` per sketch (and revision) so both are rebuilt when the schema changes.
+ */
+export const SketchControls = ({
+  params = {},
+  uniforms,
+  values,
+  seed = 0,
+  collapsed,
+  onStore,
+}: SketchControlsProps) => {
+  const store = useCreateStore()
+
+  useControls(
+    () => ({
+      seed: {
+        value: seed,
+        step: 1,
+        onChange: (seed: number) => useSketchStore.getState().setSeed(seed),
+      },
+      ...toLevaSchema(params, uniforms, {
+        values,
+        onChange: (key, value) => useSketchStore.getState().setValue(key, value),
+      }),
+    }),
+    { store },
+  )
+
+  // The store only changes along with the key, so the callback of the first render is the one to call
+  useEffect(() => {
+    onStore?.(store)
+  }, [store])
+
+  return <LevaPanel store={store} collapsed={collapsed} />
+}
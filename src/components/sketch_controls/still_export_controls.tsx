@@ -0,0 +1,105 @@
+import { useThree } from '@react-three/fiber'
+import { button, folder, useControls } from 'leva'
+import { useLayoutEffect, useRef } from 'react'
+import type { NodeRepresentation } from 'three/tsl'
+import type { WebGPURenderer } from 'three/webgpu'
+import { useClockStore } from '@/stores/clock_store'
+import { downloadBlob, exportStill } from '@/utils/export_still'
+import type { LevaStore } from './sketch_controls'
+
+export type StillExportControlsProps = {
+  colorNode: NodeRepresentation
+  emissiveNode?: NodeRepresentation
+  /** Used to derive the default height, `width / height` */
+  aspectRatio?: number
+  /** Download name, without extension */
+  filename?: string
+  /** Store of the panel to add the folder to, see `SketchControls` */
+  store: LevaStore
+}
+
+const DEFAULT_WIDTH = 4096
+const MAX_SIZE = 16384
+
+/**
+ * Adds an _Export_ folder to a sketch's Leva panel that renders the sketch's color node at an arbitrary size
+ * (tiled when needed, see `renderStill`) and downloads it as a PNG. The clock is held still while tiles render.
+ * Must be mounted inside a `WebGPUScene`.
+ */
+export const StillExportControls = ({
+  colorNode,
+  emissiveNode,
+  aspectRatio = 1,
+  filename = 'sketch',
+  store,
+}: StillExportControlsProps) => {
+  const renderer = useThree((state) => state.gl) as unknown as WebGPURenderer
+  const exporting = useRef(false)
+
+  // The button callback is created once, so read the latest props through a ref
+  const props = useRef({ colorNode, emissiveNode, filename })
+  useLayoutEffect(() => {
+    props.current = { colorNode, emissiveNode, filename }
+  })
+
+  const [, set, get] = useControls(
+    () => ({
+      Export: folder(
+        {
+          exportWidth: { label: 'width', value: DEFAULT_WIDTH, min: 1, max: MAX_SIZE, step: 1 },
+          exportHeight: {
+            label: 'height',
+            value: Math.round(DEFAULT_WIDTH / aspectRatio),
+            min: 1,
+            max: MAX_SIZE,
+            step: 1,
+          },
+          exportStatus: { label: 'status', value: '', editable: false },
+          'Export PNG': button(() => onExport()),
+        },
+        { collapsed: true },
+      ),
+    }),
+    { store },
+    [aspectRatio],
+  )
+
+  const onExport = async () => {
+    if (exporting.current) {
+      return
+    }
+
+    exporting.current = true
+
+    const { colorNode, emissiveNode, filename } = props.current
+    const width = Math.round(get('exportWidth'))
+    const height = Math.round(get('exportHeight'))
+    const clock = useClockStore.getState()
+    const wasPaused = clock.paused
+    clock.pause()
+
+    try {
+      const blob = await exportStill(renderer, {
+        width,
+        height,
+        colorNode,
+        emissiveNode,
+        onProgress: (tile, tiles) => set({ exportStatus: `Rendering tile ${tile}/${tiles}` }),
+      })
+
+      downloadBlob(blob, `${filename}-${width}x${height}.png`)
+      set({ exportStatus: 'Done' })
+    } catch (error) {
+      console.error(error)
+      set({ exportStatus: 'Export failed' })
+    } finally {
+      if (!wasPaused) {
+        useClockStore.getState().play()
+      }
+
+      exporting.current = false
+    }
+  }
+
+  return null
+}
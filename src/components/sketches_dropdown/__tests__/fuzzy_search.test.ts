@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'vitest'
+import { resolveSketchMeta, type SketchMeta } from '@/utils/sketch_module'
+import type { SketchEntry } from '@/utils/sketch_registry'
+import { fuzzyScore, groupSketches, searchSketches } from '../fuzzy_search'
+
+const createEntry = (path: string): SketchEntry => {
+  return { path, name: path.split('/').pop()!, url: `/sketches/${path}`, filePath: `../sketches/${path}.ts` }
+}
+
+const createMetas = (metas: Record<string, SketchMeta>) => {
+  return Object.fromEntries(Object.entries(metas).map(([path, meta]) => [path, resolveSketchMeta(path, meta)]))
+}
+
+const getPaths = (groups: { sketches: SketchEntry[] }[]) =>
+  groups.flatMap(({ sketches }) => sketches.map(({ path }) => path))
+
+describe('fuzzyScore', () => {
+  test('matches characters in order, ignoring case', () => {
+    expect(fuzzyScore('DwN', 'nested/dawn-1')).not.toBeNull()
+    expect(fuzzyScore('nwd', 'nested/dawn-1')).toBeNull()
+    expect(fuzzyScore('x', 'nested/dawn-1')).toBeNull()
+  })
+
+  test('scores an exact match for every character', () => {
+    // Each character scores 1, plus 2 for following the previous one and 3 for the word start
+    expect(fuzzyScore('abc', 'abc')).toBe(12)
+    expect(fuzzyScore('', 'abc')).toBe(0)
+  })
+
+  test('prefers consecutive characters', () => {
+    expect(fuzzyScore('ab', 'abxx')!).toBeGreaterThan(fuzzyScore('ab', 'axxb')!)
+  })
+
+  test('prefers characters at the start of a word', () => {
+    for (const separator of [' ', '/', '_', '-', '.', ':']) {
+      expect(fuzzyScore('b', `a${separator}b`)!).toBeGreaterThan(fuzzyScore('b', 'ab')!)
+    }
+  })
+
+  test('counts matches that skip a lot of text for less', () => {
+    expect(fuzzyScore('ac', 'abc')!).toBeGreaterThan(fuzzyScore('ac', 'abbbbc')!)
+    // Skips stop costing more after three characters
+    expect(fuzzyScore('ac', 'abbbc')).toBe(fuzzyScore('ac', 'abbbbbbc'))
+  })
+})
+
+describe('groupSketches', () => {
+  test('groups by folder in the order of their first sketch', () => {
+    const groups = groupSketches(['b/one', 'flare-1', 'b/two', 'a/deep/three'].map(createEntry))
+
+    expect(groups.map(({ folder, sketches }) => [folder, sketches.map(({ name }) => name)])).toEqual([
+      ['b', ['one', 'two']],
+      ['', ['flare-1']],
+      ['a/deep', ['three']],
+    ])
+  })
+
+  test('returns no groups for no sketches', () => {
+    expect(groupSketches([])).toEqual([])
+  })
+})
+
+describe('searchSketches', () => {
+  const sketches = ['effects/glow-1', 'flare-1', 'nested/dawn-1', 'nested/gradient-a'].map(createEntry)
+  const metas = createMetas({
+    'effects/glow-1': { title: 'Neon ring', tags: ['bloom'] },
+    'nested/dawn-1': { title: 'Sunrise' },
+  })
+
+  test('lists root sketches first, then folders alphabetically, without a query', () => {
+    const groups = searchSketches(sketches, metas, '  ')
+
+    expect(groups.map(({ folder }) => folder)).toEqual(['', 'effects', 'nested'])
+    expect(getPaths(groups)).toEqual(['flare-1', 'effects/glow-1', 'nested/dawn-1', 'nested/gradient-a'])
+  })
+
+  test('ranks word starts first', () => {
+    // `da` starts the file name, which stands in for the title here
+    expect(getPaths(searchSketches(sketches, {}, 'ne da'))).toEqual(['nested/dawn-1', 'nested/gradient-a'])
+  })
+
+  test('searches titles and tags', () => {
+    expect(getPaths(searchSketches(sketches, metas, 'sunrise'))).toEqual(['nested/dawn-1'])
+    expect(getPaths(searchSketches(sketches, metas, 'bloom'))).toEqual(['effects/glow-1'])
+  })
+
+  test('falls back to the file name without a title', () => {
+    expect(getPaths(searchSketches(sketches, {}, 'dawn'))).toEqual(['nested/dawn-1'])
+  })
+
+  test('requires every term to match', () => {
+    expect(getPaths(searchSketches(sketches, metas, 'neon zzz'))).toEqual([])
+  })
+
+  test('breaks ties by path', () => {
+    expect(getPaths(searchSketches(sketches, metas, '1'))).toEqual(['effects/glow-1', 'flare-1', 'nested/dawn-1'])
+  })
+})
@@ -0,0 +1,48 @@
+import { useAudioStore } from '@/stores/audio_store'
+import { isMicrophoneSupported } from '@/utils/audio_input'
+
+/**
+ * Picks the source of the audio uniforms: an audio file, played on a loop, or the microphone. Audio files can also be
+ * dropped onto the page (see `InputDrop`).
+ */
+export function AudioControls() {
+  const { status, source, error, playFile, startMicrophone, stop } = useAudioStore()
+  const microphone = source?.kind === 'microphone'
+
+  // Failures end up in the store's `error`, shown as the group's tooltip
+  return (
+    <div className='sketches-toggle__group' title={error ?? source?.name}>
+      <label className='sketches-toggle__button'>
+        {status === 'loading' ? 'Loading…' : 'Audio file'}
+        <input
+          type='file'
+          accept='audio/*'
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            event.target.value = ''
+            if (file) {
+              playFile(file).catch(() => {})
+            }
+          }}
+        />
+      </label>
+
+      {isMicrophoneSupported() ? (
+        <button
+          onClick={() => (microphone ? stop() : startMicrophone().catch(() => {}))}
+          className='sketches-toggle__button'
+          aria-pressed={microphone}
+        >
+          Mic
+        </button>
+      ) : null}
+
+      {source ? (
+        <button onClick={stop} className='sketches-toggle__button'>
+          Stop audio
+        </button>
+      ) : null}
+    </div>
+  )
+}
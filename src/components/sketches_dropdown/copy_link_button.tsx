@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+
+type CopyLinkButtonProps = {
+  /** Returns the absolute url to copy. Called on click, so it can read the latest state. */
+  getUrl: () => string
+}
+
+export function CopyLinkButton({ getUrl }: CopyLinkButtonProps) {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle')
+
+  useEffect(() => {
+    if (status === 'idle') {
+      return
+    }
+
+    const timeout = setTimeout(() => setStatus('idle'), 1500)
+    return () => clearTimeout(timeout)
+  }, [status])
+
+  const handleClick = async () => {
+    try {
+      await navigator.clipboard.writeText(getUrl())
+      setStatus('copied')
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      setStatus('failed')
+    }
+  }
+
+  return (
+    <button onClick={handleClick} className='sketches-toggle__button'>
+      {status === 'copied' ? 'Copied' : status === 'failed' ? 'Copy failed' : 'Copy link'}
+    </button>
+  )
+}
@@ -0,0 +1,118 @@
+import type { ResolvedSketchMeta } from '@/utils/sketch_module'
+import type { SketchEntry } from '@/utils/sketch_registry'
+
+/**
+ * Sketches of one folder under `src/sketches`. `folder` is empty for sketches at the root.
+ */
+export type SketchGroup = {
+  folder: string
+  sketches: SketchEntry[]
+}
+
+const WORD_BOUNDARY = /[\s/_\-.:]/
+
+/**
+ * Scores how well `query` matches `text` as a subsequence, or returns `null` if it doesn't.
+ * Consecutive characters and characters at the start of a word (after `/`, `-`, `_`, ...) score higher,
+ * so `ne da` ranks `nested/dawn-1` above `nested/gradient-a`.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const haystack = text.toLowerCase()
+  let score = 0
+  let previous = -1
+
+  for (const char of query.toLowerCase()) {
+    const index = haystack.indexOf(char, previous + 1)
+    if (index === -1) {
+      return null
+    }
+
+    score += 1
+    if (index === previous + 1) {
+      score += 2
+    }
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) {
+      score += 3
+    }
+    // Matches that skip a lot of text count for less
+    score -= Math.min(index - previous - 1, 3) * 0.25
+
+    previous = index
+  }
+
+  return score
+}
+
+/**
+ * Best score of a single search term over a sketch's title, path and tags.
+ */
+const scoreTerm = (term: string, sketch: SketchEntry, meta: ResolvedSketchMeta | undefined) => {
+  const fields = [sketch.path, meta?.title ?? sketch.name, ...(meta?.tags ?? [])]
+  let best: number | null = null
+
+  for (const field of fields) {
+    const score = fuzzyScore(term, field)
+    if (score !== null && (best === null || score > best)) {
+      best = score
+    }
+  }
+
+  return best
+}
+
+const getFolder = (path: string) => path.split('/').slice(0, -1).join('/')
+
+/**
+ * Groups sketches by folder, keeping their order within each group. Groups appear in the order of their first sketch.
+ */
+export const groupSketches = (sketches: SketchEntry[]): SketchGroup[] => {
+  const groups = new Map<string, SketchEntry[]>()
+
+  for (const sketch of sketches) {
+    const folder = getFolder(sketch.path)
+    groups.set(folder, [...(groups.get(folder) ?? []), sketch])
+  }
+
+  return [...groups].map(([folder, sketches]) => ({ folder, sketches }))
+}
+
+/**
+ * Filters sketches by a fuzzy query over their path, title and tags, grouped by folder.
+ * Every whitespace-separated term has to match. Without a query, root sketches come first, then folders
+ * alphabetically; with one, the best matches come first.
+ */
+export const searchSketches = (
+  sketches: SketchEntry[],
+  metas: Record<string, ResolvedSketchMeta>,
+  query: string,
+): SketchGroup[] => {
+  const terms = query.trim().split(/\s+/).filter(Boolean)
+
+  if (terms.length === 0) {
+    return groupSketches(sketches).sort((a, b) =>
+      a.folder === b.folder ? 0 : !a.folder ? -1 : !b.folder ? 1 : a.folder.localeCompare(b.folder),
+    )
+  }
+
+  const results: { sketch: SketchEntry; score: number }[] = []
+
+  for (const sketch of sketches) {
+    let score = 0
+    for (const term of terms) {
+      const termScore = scoreTerm(term, sketch, metas[sketch.path])
+      if (termScore === null) {
+        score = -Infinity
+        break
+      }
+      score += termScore
+    }
+
+    if (score > -Infinity) {
+      results.push({ sketch, score })
+    }
+  }
+
+  results.sort((a, b) => b.score - a.score || a.sketch.path.localeCompare(b.sketch.path))
+
+  return groupSketches(results.map(({ sketch }) => sketch))
+}
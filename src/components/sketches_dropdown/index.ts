@@ -1 +1,6 @@
 export { SketchesDropdown } from './sketches_dropdown'
+export { SketchesList } from './sketches_list'
+export { CopyLinkButton } from './copy_link_button'
+export { RecordControls } from './record_controls'
+export { ShaderInspectorButton } from './shader_inspector_button'
+export { AudioControls } from './audio_controls'
@@ -0,0 +1,76 @@
+import { useRecorderStore } from '@/stores/recorder_store'
+import { isWebMRecordingSupported, type RecordingFormat } from '@/utils/recording'
+
+const FRAME_RATES = [24, 30, 60]
+
+type RecordControlsProps = {
+  /** Download name, without extension */
+  filename?: string
+}
+
+/**
+ * Format, frame rate and duration inputs plus a record/stop button. The recording itself is done by the
+ * `FrameRecorder` mounted in `WebGPUScene`.
+ */
+export function RecordControls({ filename = 'sketch' }: RecordControlsProps) {
+  const { format, fps, duration, status, frame, frames, error, setOptions, start, stop } = useRecorderStore()
+  const busy = status !== 'idle'
+
+  const label =
+    status === 'recording'
+      ? `Stop ${frame}/${frames}`
+      : status === 'encoding'
+        ? 'Encoding…'
+        : error
+          ? 'Retry'
+          : 'Record'
+
+  return (
+    <div className='sketches-toggle__group' title={error}>
+      <select
+        className='sketches-toggle__input'
+        aria-label='Recording format'
+        value={format}
+        disabled={busy}
+        onChange={(event) => setOptions({ format: event.target.value as RecordingFormat })}
+      >
+        <option value='png'>PNG</option>
+        {isWebMRecordingSupported() ? <option value='webm'>WebM</option> : null}
+      </select>
+
+      <select
+        className='sketches-toggle__input'
+        aria-label='Frame rate'
+        value={fps}
+        disabled={busy}
+        onChange={(event) => setOptions({ fps: Number(event.target.value) })}
+      >
+        {FRAME_RATES.map((rate) => (
+          <option key={rate} value={rate}>
+            {rate} fps
+          </option>
+        ))}
+      </select>
+
+      <input
+        className='sketches-toggle__input'
+        aria-label='Duration in seconds'
+        type='number'
+        min={0.1}
+        step={0.1}
+        value={duration}
+        disabled={busy}
+        onChange={(event) => setOptions({ duration: Math.max(0.1, Number(event.target.value) || 0) })}
+      />
+
+      <button
+        onClick={() => (status === 'recording' ? stop() : start({ filename }))}
+        className='sketches-toggle__button'
+        disabled={status === 'encoding'}
+        aria-pressed={status === 'recording'}
+      >
+        {label}
+      </button>
+    </div>
+  )
+}
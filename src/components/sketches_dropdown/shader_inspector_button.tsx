@@ -0,0 +1,14 @@
+import { useShaderInspectorStore } from '@/stores/shader_inspector_store'
+
+/**
+ * Toggles the `ShaderInspector` panel.
+ */
+export function ShaderInspectorButton() {
+  const { open, toggle } = useShaderInspectorStore()
+
+  return (
+    <button onClick={toggle} className='sketches-toggle__button' aria-pressed={open}>
+      Shaders
+    </button>
+  )
+}
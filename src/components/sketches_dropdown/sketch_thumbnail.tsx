@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react'
+import { onSketchUpdate } from '@/utils/sketch_registry'
+import { getSketchThumbnail } from '@/utils/sketch_thumbnails'
+
+type SketchThumbnailProps = {
+  path: string
+}
+
+/**
+ * Still preview of a sketch (see `getSketchThumbnail`). It is only requested once the card scrolls into view, and
+ * requested again after the sketch is hot-updated. Shows an empty frame while rendering or when rendering fails.
+ */
+export function SketchThumbnail({ path }: SketchThumbnailProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [visible, setVisible] = useState(false)
+  const [revision, setRevision] = useState(0)
+  const [url, setUrl] = useState<string>()
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element || visible) {
+      return
+    }
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true)
+      }
+    })
+    observer.observe(element)
+
+    return () => {
+      observer.disconnect()
+    }
+  }, [visible])
+
+  useEffect(() => {
+    return onSketchUpdate((updated) => {
+      if (updated === path) {
+        setRevision((revision) => revision + 1)
+      }
+    })
+  }, [path])
+
+  useEffect(() => {
+    if (!visible) {
+      return
+    }
+
+    let cancelled = false
+
+    getSketchThumbnail(path)
+      .then((url) => {
+        if (!cancelled) {
+          setUrl(url)
+          setFailed(false)
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to render thumbnail:', path, error)
+        if (!cancelled) {
+          setFailed(true)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [path, visible, revision])
+
+  return (
+    <div ref={ref} className='sketch-card__thumbnail' aria-hidden>
+      {url && !failed ? <img src={url} alt='' draggable={false} /> : null}
+    </div>
+  )
+}
@@ -1,42 +1,24 @@
-import { useEffect, useRef, useState } from 'react'
-import { Link } from '@tanstack/react-router'
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import { SketchesList } from './sketches_list'
+import { useSketchHotkeys } from './use_sketch_hotkeys'
 import './index.css'
 
-type SketchInfo = {
-  name: string
-  path: string
-  url: string
+type SketchesDropdownProps = {
+  /** Extra buttons rendered next to the toggle, e.g. sketch actions */
+  actions?: ReactNode
 }
-export function SketchesDropdown() {
+
+export function SketchesDropdown({ actions }: SketchesDropdownProps) {
   const dropdownRef = useRef<HTMLDivElement>(null)
+  const toggleRef = useRef<HTMLButtonElement>(null)
   const [showSketches, setShowSketches] = useState(false)
-  const [sketches, setSketches] = useState<SketchInfo[]>([])
-
-  useEffect(() => {
-    // Use the same glob pattern as the sketches route
-    const sketchesGlob: Record<string, { default: () => any }> = import.meta.glob('../../sketches/**/*.ts', {
-      eager: true,
-    })
-
-    const sketchesList: SketchInfo[] = Object.keys(sketchesGlob).map((filePath) => {
-      // Convert file path to URL path
-      // ../../sketches/flare-1.ts -> flare-1
-      // ../../sketches/nested/dawn-1.ts -> nested/dawn-1
-      const relativePath = filePath.replace('../../sketches/', '').replace('.ts', '')
-      const url = `/sketches/${relativePath}`
-
-      // Extract name from path (last part before extension)
-      const name = relativePath.split('/').pop() || relativePath
 
-      return {
-        name,
-        path: `/${relativePath}`,
-        url,
-      }
-    })
+  useSketchHotkeys(() => setShowSketches(true))
 
-    setSketches(sketchesList)
-  }, [])
+  const close = () => {
+    setShowSketches(false)
+    toggleRef.current?.focus()
+  }
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -45,35 +27,46 @@ export function SketchesDropdown() {
       }
     }
 
+    // The search input handles its own Escape (clearing the query first); this covers focus anywhere else
+    function handleKeyDown(event: KeyboardEvent) {
+      if (event.key === 'Escape' && !event.defaultPrevented) {
+        close()
+      }
+    }
+
     if (showSketches) {
       document.addEventListener('mousedown', handleClickOutside)
+      document.addEventListener('keydown', handleKeyDown)
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
     }
   }, [showSketches])
 
   return (
     <div className='sketches-overlay'>
       <div className='sketches-toggle' ref={dropdownRef}>
-        <button onClick={() => setShowSketches(!showSketches)} className='sketches-toggle__button'>
-          Sketches
-        </button>
+        <div className='sketches-toggle__bar'>
+          <button
+            ref={toggleRef}
+            onClick={() => setShowSketches(!showSketches)}
+            className='sketches-toggle__button'
+            aria-haspopup='listbox'
+            aria-expanded={showSketches}
+            title='Browse sketches (/ or Ctrl+K, [ and ] for previous and next)'
+          >
+            Sketches
+          </button>
+
+          {actions}
+        </div>
 
         {showSketches && (
           <div className='sketches-dropdown'>
             <div className='sketches-dropdown__content'>
-              <div className='sketches-list'>
-                <div className='sketches-list__grid'>
-                  {sketches.map((sketch) => (
-                    <Link key={sketch.path} to={sketch.url} className='sketch-card'>
-                      <h3 className='sketch-card__title'>{sketch.name}</h3>
-                      <div className='sketch-card__path'>{sketch.path}</div>
-                    </Link>
-                  ))}
-                </div>
-              </div>
+              <SketchesList onSelect={() => setShowSketches(false)} onClose={close} />
             </div>
           </div>
         )}
@@ -1,63 +1,145 @@
-import { useEffect, useState } from 'react'
-import { Link } from '@tanstack/react-router'
-
-interface SketchInfo {
-  name: string
-  path: string
-  url: string
-  description?: string
+import { useEffect, useId, useMemo, useState, type KeyboardEvent } from 'react'
+import { Link, useNavigate, useParams } from '@tanstack/react-router'
+import { sketches } from '@/utils/sketch_registry'
+import { searchSketches } from './fuzzy_search'
+import { SketchThumbnail } from './sketch_thumbnail'
+import { useSketchMetas } from './use_sketch_metas'
+
+type SketchesListProps = {
+  /** Called after a sketch was picked, e.g. to close the dropdown */
+  onSelect?: () => void
+  /** Called when Escape is pressed in the search input */
+  onClose?: () => void
 }
 
-export function SketchesList() {
-  const [sketches, setSketches] = useState<SketchInfo[]>([])
+/**
+ * Searchable list of every sketch, grouped by folder. The search input owns the keyboard:
+ * ↑/↓ (or Home/End) move through the results, Enter opens the highlighted sketch and Escape closes.
+ */
+export function SketchesList({ onSelect, onClose }: SketchesListProps) {
+  const metas = useSketchMetas()
+  const navigate = useNavigate()
+  const { _splat: currentPath } = useParams({ strict: false }) as { _splat?: string }
+
+  const [query, setQuery] = useState('')
+  const groups = useMemo(() => searchSketches(sketches, metas, query), [metas, query])
+  const results = useMemo(() => groups.flatMap((group) => group.sketches), [groups])
+
+  // Highlight the open sketch at first, the best match once searching
+  const [activeIndex, setActiveIndex] = useState(() =>
+    Math.max(
+      results.findIndex((sketch) => sketch.path === currentPath),
+      0,
+    ),
+  )
+  const active = results[Math.min(activeIndex, results.length - 1)]
+
+  const id = useId()
+  const listboxId = `${id}-listbox`
+  const getOptionId = (path: string) => `${id}-option-${path}`
 
   useEffect(() => {
-    // Use the same glob pattern as the sketches route
-    const sketchesGlob: Record<string, { default: () => any }> = import.meta.glob('../../sketches/**/*.ts', {
-      eager: true,
-    })
-
-    const sketchesList: SketchInfo[] = Object.keys(sketchesGlob).map((filePath) => {
-      // Convert file path to URL path
-      // ../../sketches/flare-1.ts -> flare-1
-      // ../../sketches/nested/dawn-1.ts -> nested/dawn-1
-      const relativePath = filePath.replace('../../sketches/', '').replace('.ts', '')
-      const url = `/sketches/${relativePath}`
-
-      // Extract name from path (last part before extension)
-      const name = relativePath.split('/').pop() || relativePath
-
-      return {
-        name,
-        path: relativePath,
-        url,
-        description: getSketchDescription(name),
-      }
-    })
+    if (active) {
+      document.getElementById(getOptionId(active.path))?.scrollIntoView({ block: 'nearest' })
+    }
+  }, [active])
 
-    setSketches(sketchesList)
-  }, [])
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const count = results.length
+    const index = active ? results.indexOf(active) : -1
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault()
+      if (count > 0) {
+        setActiveIndex((index + (event.key === 'ArrowDown' ? 1 : -1) + count) % count)
+      }
+    } else if (event.key === 'Home' || event.key === 'End') {
+      event.preventDefault()
+      setActiveIndex(event.key === 'Home' ? 0 : count - 1)
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      if (active) {
+        navigate({ to: active.url })
+        onSelect?.()
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      // Clear the search first, close on the second press
+      if (query) {
+        setQuery('')
+      } else {
+        onClose?.()
+      }
+    }
+  }
 
   return (
     <div className='sketches-list'>
-      <div className='sketches-list__grid'>
-        {sketches.map((sketch) => (
-          <Link key={sketch.path} to={sketch.url} className='sketch-card'>
-            <h3 className='sketch-card__title'>{sketch.name}</h3>
-            <p className='sketch-card__description'>{sketch.description}</p>
-            <div className='sketch-card__path'>{sketch.path}</div>
-          </Link>
+      <input
+        className='sketches-list__search'
+        type='search'
+        role='combobox'
+        placeholder='Search sketches…'
+        aria-label='Search sketches'
+        aria-expanded
+        aria-controls={listboxId}
+        aria-autocomplete='list'
+        aria-activedescendant={active ? getOptionId(active.path) : undefined}
+        autoFocus
+        spellCheck={false}
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value)
+          setActiveIndex(0)
+        }}
+        onKeyDown={handleKeyDown}
+      />
+
+      <div className='sketches-list__grid' id={listboxId} role='listbox' aria-label='Sketches'>
+        {groups.map(({ folder, sketches }) => (
+          <div key={folder} className='sketches-list__group' role='group' aria-labelledby={`${id}-group-${folder}`}>
+            <div className='sketches-list__folder' id={`${id}-group-${folder}`}>
+              {folder ? `${folder}/` : 'sketches/'}
+            </div>
+
+            {sketches.map((sketch) => {
+              const meta = metas[sketch.path]
+              const selected = sketch === active
+
+              return (
+                <Link
+                  key={sketch.path}
+                  id={getOptionId(sketch.path)}
+                  to={sketch.url}
+                  role='option'
+                  aria-selected={selected}
+                  aria-current={sketch.path === currentPath ? 'page' : undefined}
+                  tabIndex={-1}
+                  className={selected ? 'sketch-card sketch-card--active' : 'sketch-card'}
+                  onMouseMove={() => setActiveIndex(results.indexOf(sketch))}
+                  onClick={() => onSelect?.()}
+                >
+                  <SketchThumbnail path={sketch.path} />
+                  <h3 className='sketch-card__title'>{meta.title}</h3>
+                  <p className='sketch-card__description'>{meta.description}</p>
+                  {meta.tags.length > 0 ? (
+                    <ul className='sketch-card__tags'>
+                      {meta.tags.map((tag) => (
+                        <li key={tag} className='sketch-card__tag'>
+                          {tag}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                  <div className='sketch-card__path'>{sketch.path}</div>
+                </Link>
+              )
+            })}
+          </div>
         ))}
       </div>
+
+      {results.length === 0 ? <p className='sketches-list__empty'>No sketches match “{query}”</p> : null}
     </div>
   )
 }
-
-function getSketchDescription(name: string): string {
-  const descriptions: Record<string, string> = {
-    'flare-1': 'A gradient sketch with fractionated coordinates and vertical banding',
-    'dawn-1': 'A gradient sketch tribute to Rik Oostenbroek with animated patterns',
-  }
-
-  return descriptions[name] || 'A creative WebGPU sketch'
-}
@@ -0,0 +1,65 @@
+import { useEffect, useLayoutEffect, useRef } from 'react'
+import { useNavigate, useParams } from '@tanstack/react-router'
+import { getAdjacentSketch } from '@/utils/sketch_registry'
+
+const isEditable = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) {
+    return false
+  }
+
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Registers the sketch browser's global shortcuts. They are ignored while typing in a field (e.g. a Leva input).
+ *
+ * - `/` or `Ctrl`/`⌘` + `K`: Opens the sketch browser
+ * - `]` / `[`: Next / previous sketch, in path order
+ *
+ * @param onOpen - Called to open the sketch browser
+ */
+export const useSketchHotkeys = (onOpen: () => void) => {
+  const navigate = useNavigate()
+  const { _splat: sketchPath } = useParams({ strict: false }) as { _splat?: string }
+
+  // Read through a ref so the listener doesn't need to be re-registered on every render
+  const onOpenRef = useRef(onOpen)
+  useLayoutEffect(() => {
+    onOpenRef.current = onOpen
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey) {
+        return
+      }
+
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        onOpenRef.current()
+        return
+      }
+
+      if (event.metaKey || event.ctrlKey || isEditable(event.target)) {
+        return
+      }
+
+      if (event.key === '/') {
+        event.preventDefault()
+        onOpenRef.current()
+      } else if (event.key === ']' || event.key === '[') {
+        const sketch = getAdjacentSketch(sketchPath, event.key === ']' ? 1 : -1)
+        if (sketch) {
+          event.preventDefault()
+          navigate({ to: sketch.url })
+        }
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [navigate, sketchPath])
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react'
+import type { ResolvedSketchMeta } from '@/utils/sketch_module'
+import { getSketchMeta, onSketchUpdate, sketches } from '@/utils/sketch_registry'
+
+const getSketchMetas = () => {
+  return Object.fromEntries(sketches.map((sketch) => [sketch.path, getSketchMeta(sketch.path)]))
+}
+
+/**
+ * Metadata of every sketch, keyed by path. Comes from the sketch manifest, so no sketch module is loaded for it.
+ * Updates when a sketch is hot updated.
+ */
+export const useSketchMetas = () => {
+  const [metas, setMetas] = useState<Record<string, ResolvedSketchMeta>>(getSketchMetas)
+
+  useEffect(() => {
+    return onSketchUpdate(() => setMetas(getSketchMetas()))
+  }, [])
+
+  return metas
+}
@@ -0,0 +1,126 @@
+import type { CSSProperties } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useClockStore, type LoopRange } from '@/stores/clock_store'
+import './index.css'
+
+const RATES = [-1, 0.25, 0.5, 1, 2, 4]
+
+/** The scrub bar grows in steps of this many seconds */
+const SPAN_STEP = 10
+
+const formatTime = (time: number) => `${time.toFixed(2)}s`
+
+const parseSeconds = (value: string, fallback: number) => {
+  const seconds = Number(value)
+  return Number.isFinite(seconds) ? Math.max(0, seconds) : fallback
+}
+
+/**
+ * Current time and scrub bar. The only part of the timeline subscribed to `time`, which changes every frame while the
+ * clock runs.
+ */
+function TimelineScrubber({ loop }: { loop: LoopRange }) {
+  const time = useClockStore((state) => state.time)
+  const setTime = useClockStore((state) => state.setTime)
+
+  // Long enough to show the current time and the loop range
+  const span = Math.max(SPAN_STEP, Math.ceil(Math.max(time, loop.end) / SPAN_STEP) * SPAN_STEP)
+
+  const trackStyle = {
+    '--timeline-loop-start': `${(loop.start / span) * 100}%`,
+    '--timeline-loop-end': `${(loop.end / span) * 100}%`,
+  } as CSSProperties
+
+  return (
+    <>
+      <span className='timeline__time'>{formatTime(time)}</span>
+
+      <div className={loop.enabled ? 'timeline__track timeline__track--loop' : 'timeline__track'} style={trackStyle}>
+        <input
+          className='timeline__scrub'
+          type='range'
+          aria-label='Time'
+          min={0}
+          max={span}
+          step={0.01}
+          value={time}
+          onChange={(event) => setTime(Number(event.target.value))}
+        />
+      </div>
+    </>
+  )
+}
+
+/**
+ * Transport controls for the sketch clock: play/pause, frame step, scrubbing, a loop range and playback rate.
+ * Drives `useClockStore`, and through it `clockTime` and `useStorageTrigger` animations.
+ */
+export function Timeline() {
+  const { paused, rate, loop, toggle, step, setRate, setLoop } = useClockStore(
+    useShallow(({ paused, rate, loop, toggle, step, setRate, setLoop }) => ({
+      paused,
+      rate,
+      loop,
+      toggle,
+      step,
+      setRate,
+      setLoop,
+    })),
+  )
+
+  return (
+    <div className='timeline' role='group' aria-label='Timeline'>
+      <button className='timeline__button' onClick={() => step(-1)} aria-label='Previous frame'>
+        ‹
+      </button>
+      <button className='timeline__button' onClick={toggle} aria-pressed={paused}>
+        {paused ? 'Play' : 'Pause'}
+      </button>
+      <button className='timeline__button' onClick={() => step(1)} aria-label='Next frame'>
+        ›
+      </button>
+
+      <TimelineScrubber loop={loop} />
+
+      <label className='timeline__loop'>
+        <input
+          type='checkbox'
+          checked={loop.enabled}
+          onChange={(event) => setLoop({ enabled: event.target.checked })}
+        />
+        Loop
+      </label>
+      <input
+        className='timeline__input'
+        type='number'
+        aria-label='Loop start in seconds'
+        min={0}
+        step={0.1}
+        value={loop.start}
+        onChange={(event) => setLoop({ start: parseSeconds(event.target.value, loop.start) })}
+      />
+      <input
+        className='timeline__input'
+        type='number'
+        aria-label='Loop end in seconds'
+        min={0}
+        step={0.1}
+        value={loop.end}
+        onChange={(event) => setLoop({ end: parseSeconds(event.target.value, loop.end) })}
+      />
+
+      <select
+        className='timeline__input'
+        aria-label='Playback rate'
+        value={rate}
+        onChange={(event) => setRate(Number(event.target.value))}
+      >
+        {RATES.map((value) => (
+          <option key={value} value={value}>
+            {value}×
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -18,3 +18,7 @@ declare module '*.frag' {
   const value: string
   export default value
 }
+declare module 'virtual:sketch-manifest' {
+  const manifest: import('@/utils/sketch_registry').SketchManifest
+  export default manifest
+}
@@ -9,9 +9,22 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as PlaylistRouteImport } from './routes/playlist'
+import { Route as CompareRouteImport } from './routes/compare'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as SketchesSplatRouteImport } from './routes/sketches.$'
+import { Route as EmbedSplatRouteImport } from './routes/embed.$'
 
+const PlaylistRoute = PlaylistRouteImport.update({
+  id: '/playlist',
+  path: '/playlist',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const CompareRoute = CompareRouteImport.update({
+  id: '/compare',
+  path: '/compare',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -22,35 +35,66 @@ const SketchesSplatRoute = SketchesSplatRouteImport.update({
   path: '/sketches/$',
   getParentRoute: () => rootRouteImport,
 } as any)
+const EmbedSplatRoute = EmbedSplatRouteImport.update({
+  id: '/embed/$',
+  path: '/embed/$',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/compare': typeof CompareRoute
+  '/playlist': typeof PlaylistRoute
+  '/embed/$': typeof EmbedSplatRoute
   '/sketches/$': typeof SketchesSplatRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/compare': typeof CompareRoute
+  '/playlist': typeof PlaylistRoute
+  '/embed/$': typeof EmbedSplatRoute
   '/sketches/$': typeof SketchesSplatRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/compare': typeof CompareRoute
+  '/playlist': typeof PlaylistRoute
+  '/embed/$': typeof EmbedSplatRoute
   '/sketches/$': typeof SketchesSplatRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/sketches/$'
+  fullPaths: '/' | '/compare' | '/playlist' | '/embed/$' | '/sketches/$'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/sketches/$'
-  id: '__root__' | '/' | '/sketches/$'
+  to: '/' | '/compare' | '/playlist' | '/embed/$' | '/sketches/$'
+  id: '__root__' | '/' | '/compare' | '/playlist' | '/embed/$' | '/sketches/$'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  CompareRoute: typeof CompareRoute
+  PlaylistRoute: typeof PlaylistRoute
+  EmbedSplatRoute: typeof EmbedSplatRoute
   SketchesSplatRoute: typeof SketchesSplatRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/playlist': {
+      id: '/playlist'
+      path: '/playlist'
+      fullPath: '/playlist'
+      preLoaderRoute: typeof PlaylistRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/compare': {
+      id: '/compare'
+      path: '/compare'
+      fullPath: '/compare'
+      preLoaderRoute: typeof CompareRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -65,11 +109,21 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SketchesSplatRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/embed/$': {
+      id: '/embed/$'
+      path: '/embed/$'
+      fullPath: '/embed/$'
+      preLoaderRoute: typeof EmbedSplatRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  CompareRoute: CompareRoute,
+  PlaylistRoute: PlaylistRoute,
+  EmbedSplatRoute: EmbedSplatRoute,
   SketchesSplatRoute: SketchesSplatRoute,
 }
 export const routeTree = rootRouteImport
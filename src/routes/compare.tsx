@@ -0,0 +1,288 @@
+import { createFileRoute, notFound, useRouter } from '@tanstack/react-router'
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react'
+import { uniform, vec3 } from 'three/tsl'
+import type { UniformNode } from 'three/webgpu'
+import WebGPUScene from '@/components/canvas/webgpu_scene'
+import { WebGPUSketch } from '@/components/canvas/webgpu_sketch'
+import { ShaderCheck } from '@/components/canvas/shader_check'
+import { CompareDivider, CompareToolbar } from '@/components/compare_view'
+import { ShaderErrorOverlay } from '@/components/shader_error_overlay'
+import { CompareControls } from '@/components/sketch_controls'
+import { SketchesDropdown } from '@/components/sketches_dropdown'
+import { Timeline } from '@/components/timeline'
+import { useClockStore } from '@/stores/clock_store'
+import { useSketchStore } from '@/stores/sketch_store'
+import { compareNodes } from '@/tsl/utils/function/compare_nodes'
+import { ErrorBoundary } from '@/utils/error_boundary'
+import { toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import type { SketchInputNodes } from '@/utils/sketch_inputs'
+import { isNodeSketch, type SketchModule } from '@/utils/sketch_module'
+import {
+  createParamUniforms,
+  getDefaultParamValues,
+  sanitizeParamValues,
+  type SketchParamValues,
+} from '@/utils/sketch_params'
+import { loadSketch, onSketchUpdate, sketches, sketchPathToSourcePath } from '@/utils/sketch_registry'
+import { buildSketchSearch, validateCompareSearch, type CompareMode } from '@/utils/sketch_search'
+import { useSketchInputs } from '@/utils/use_sketch_inputs'
+
+export const Route = createFileRoute('/compare')({
+  validateSearch: validateCompareSearch,
+  loaderDeps: ({ search: { a, b } }) => ({ a, b }),
+  loader: async ({ deps }) => {
+    const a = deps.a ?? sketches[0]?.path
+    const b = deps.b ?? a
+    if (!a || !b) {
+      throw notFound()
+    }
+
+    const [modA, modB] = await Promise.all([loadSketch(a), loadSketch(b)])
+    if (!modA || !modB) {
+      throw notFound()
+    }
+
+    return { a: { path: a, mod: modA }, b: { path: b, mod: modB } }
+  },
+  component: RouteComponent,
+  pendingComponent: PendingComponent,
+  notFoundComponent: NotFoundComponent,
+})
+
+const CANVAS_STYLE: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  pointerEvents: 'none',
+}
+
+const DEFAULT_POSITION = 0.5
+
+/**
+ * Builds one side of the comparison. Emissive nodes are added to the color, as `WebGPUSketch` would;
+ * post-processing is left out, as it applies to the whole canvas.
+ */
+const buildSide = (mod: SketchModule, values: SketchParamValues, inputNodes: SketchInputNodes) => {
+  const uniforms = { ...createParamUniforms(mod.params, values), ...inputNodes }
+
+  try {
+    if (!isNodeSketch(mod)) {
+      throw new Error(`Only sketches that export a color node can be compared, not ${mod.kind} sketches`)
+    }
+
+    const color = mod.default(uniforms)
+    const emissive = mod.emissive?.(uniforms)
+
+    return { uniforms, node: emissive ? vec3(color).add(emissive) : color }
+  } catch (error) {
+    return { uniforms, error: toBuildDiagnostic(error) }
+  }
+}
+
+function RouteComponent() {
+  const { a, b } = Route.useLoaderData()
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+  const router = useRouter()
+
+  const mode: CompareMode = search.mode ?? 'wipe'
+  const [position, setPosition] = useState(search.position ?? DEFAULT_POSITION)
+
+  // Param values are read from the url when a side changes; afterwards the panel is the source of truth.
+  // Swapping bumps the generation and hands over the swapped values directly, as the url updates asynchronously and
+  // neither path may change (e.g. two variants of one sketch)
+  const [generation, setGeneration] = useState(0)
+  const swapped = useRef<{ a?: Record<string, unknown>; b?: Record<string, unknown> }>({})
+
+  const valuesA = useMemo(() => {
+    const values = swapped.current.a ?? search.aParams
+    return { ...getDefaultParamValues(a.mod.params), ...sanitizeParamValues(a.mod.params, values) }
+  }, [a, generation])
+  const valuesB = useMemo(() => {
+    const values = swapped.current.b ?? search.bParams
+    return { ...getDefaultParamValues(b.mod.params), ...sanitizeParamValues(b.mod.params, values) }
+  }, [b, generation])
+  // Each side shows its sketch's default inputs, even when both sides are the same sketch
+  const { nodes: inputsA } = useSketchInputs(a.mod.inputs, a.path)
+  const { nodes: inputsB } = useSketchInputs(b.mod.inputs, b.path)
+  const sideA = useMemo(() => buildSide(a.mod, valuesA, inputsA), [a, valuesA, inputsA])
+  const sideB = useMemo(() => buildSide(b.mod, valuesB, inputsB), [b, valuesB, inputsB])
+
+  // Current values of each side, as edited in the panel
+  const current = useRef({ a: valuesA, b: valuesB })
+  useEffect(() => {
+    current.current = { a: { ...valuesA }, b: { ...valuesB } }
+  }, [valuesA, valuesB])
+
+  const uniforms = useMemo(
+    () => ({
+      position: uniform(DEFAULT_POSITION) as UniformNode<number>,
+      difference: uniform(0) as UniformNode<number>,
+      gain: uniform(4) as UniformNode<number>,
+    }),
+    [],
+  )
+
+  useEffect(() => {
+    uniforms.position.value = mode === 'split' ? DEFAULT_POSITION : position
+    uniforms.difference.value = mode === 'difference' ? 1 : 0
+  }, [mode, position])
+
+  const node = useMemo(() => {
+    if (!sideA.node || !sideB.node) {
+      return undefined
+    }
+
+    return compareNodes({ a: sideA.node, b: sideB.node, ...uniforms })
+  }, [sideA, sideB])
+
+  const [check, setCheck] = useState<{ node: unknown; diagnostic: ShaderDiagnostic | null }>()
+  const checked = node !== undefined && check?.node === node
+  const diagnostic = sideA.error ?? sideB.error ?? (checked ? (check?.diagnostic ?? null) : null)
+
+  const fileA = sketchPathToSourcePath(a.path)
+  const fileB = sketchPathToSourcePath(b.path)
+  const filePath = sideA.error ? fileA : sideB.error || a.path === b.path ? fileB : `${fileA}, ${fileB}`
+
+  useEffect(() => {
+    useSketchStore.getState().reset({ seed: search.seed ?? 0 })
+    useClockStore.getState().reset({ time: search.t, paused: search.t !== undefined })
+  }, [])
+
+  useEffect(() => {
+    return onSketchUpdate((path) => {
+      if (path === a.path || path === b.path) {
+        router.invalidate()
+      }
+    })
+  }, [a.path, b.path])
+
+  useEffect(() => {
+    const previousTitle = document.title
+    document.title = `${a.path} vs ${b.path} - Fragments°`
+
+    return () => {
+      document.title = previousTitle
+    }
+  }, [a.path, b.path])
+
+  const onChange = (changes: { a?: string; b?: string; mode?: CompareMode }) => {
+    swapped.current = {
+      a: changes.a ? undefined : swapped.current.a,
+      b: changes.b ? undefined : swapped.current.b,
+    }
+
+    navigate({
+      search: (previous) => ({
+        ...previous,
+        ...changes,
+        // A new sketch starts from its defaults
+        aParams: changes.a ? undefined : previous.aParams,
+        bParams: changes.b ? undefined : previous.bParams,
+      }),
+      replace: true,
+    })
+  }
+
+  const onSwap = () => {
+    const paramsA = buildSketchSearch(getDefaultParamValues(a.mod.params), current.current.a, 0).params
+    const paramsB = buildSketchSearch(getDefaultParamValues(b.mod.params), current.current.b, 0).params
+    swapped.current = { a: paramsB ?? {}, b: paramsA ?? {} }
+
+    navigate({
+      search: (previous) => ({ ...previous, a: b.path, b: a.path, aParams: paramsB, bParams: paramsA }),
+      replace: true,
+    })
+    setGeneration((generation) => generation + 1)
+  }
+
+  const ref = useRef<any>(null)
+
+  return (
+    <section className='fragments-boilerplate__main__canvas' ref={ref}>
+      <ErrorBoundary
+        resetKeys={[node]}
+        fallback={({ error, reset }) => (
+          <ShaderErrorOverlay diagnostic={toBuildDiagnostic(error)} filePath={filePath} onRetry={reset} />
+        )}
+      >
+        <Suspense fallback={null}>
+          <WebGPUScene style={CANVAS_STYLE} eventSource={ref} eventPrefix='client'>
+            {node ? <ShaderCheck colorNode={node} onResult={(diagnostic) => setCheck({ node, diagnostic })} /> : null}
+            {checked && !diagnostic ? <WebGPUSketch colorNode={node} /> : null}
+          </WebGPUScene>
+        </Suspense>
+      </ErrorBoundary>
+
+      {mode !== 'difference' ? (
+        <CompareDivider
+          position={mode === 'split' ? DEFAULT_POSITION : position}
+          draggable={mode === 'wipe'}
+          onChange={setPosition}
+          onCommit={(position) => navigate({ search: (previous) => ({ ...previous, position }), replace: true })}
+        />
+      ) : null}
+
+      {diagnostic ? <ShaderErrorOverlay diagnostic={diagnostic} filePath={filePath} /> : null}
+
+      <SketchesDropdown
+        actions={<CompareToolbar a={a.path} b={b.path} mode={mode} onChange={onChange} onSwap={onSwap} />}
+      />
+
+      <Timeline />
+
+      <CompareControls
+        key={`${a.path}:${b.path}:${generation}`}
+        a={{
+          title: `A · ${a.path}`,
+          params: a.mod.params,
+          uniforms: sideA.uniforms,
+          values: valuesA,
+          onChange: (key, value) => (current.current.a[key] = value),
+        }}
+        b={{
+          title: `B · ${b.path}`,
+          params: b.mod.params,
+          uniforms: sideB.uniforms,
+          values: valuesB,
+          onChange: (key, value) => (current.current.b[key] = value),
+        }}
+        gain={uniforms.gain}
+        seed={search.seed}
+      />
+    </section>
+  )
+}
+
+function PendingComponent() {
+  return (
+    <section className='fragments-boilerplate__main__canvas'>
+      <div className='sketch-status'>
+        <p className='sketch-status__message'>Loading sketches…</p>
+      </div>
+
+      <SketchesDropdown />
+    </section>
+  )
+}
+
+function NotFoundComponent() {
+  const { a, b } = Route.useSearch()
+
+  return (
+    <section className='fragments-boilerplate__main__canvas'>
+      <div className='sketch-status'>
+        <h1 className='sketch-status__title'>Nothing to compare</h1>
+        <p className='sketch-status__message'>
+          Pick two sketches from <code>src/sketches</code>, e.g. <code>/compare?a=flare-1&b=nested/dawn-1</code>
+          {a || b ? (
+            <>
+              . One of <code>{[a, b].filter(Boolean).join(', ')}</code> doesn&apos;t exist.
+            </>
+          ) : null}
+        </p>
+      </div>
+
+      <SketchesDropdown />
+    </section>
+  )
+}
@@ -0,0 +1,309 @@
+import { createFileRoute, notFound, useRouter, type ErrorComponentProps } from '@tanstack/react-router'
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react'
+import type { WebGPURenderer } from 'three/webgpu'
+import WebGPUScene from '@/components/canvas/webgpu_scene'
+import { WebGPUSketch } from '@/components/canvas/webgpu_sketch'
+import { FrameCapture, type CaptureFrame } from '@/components/canvas/frame_capture'
+import { ComputeSketch } from '@/components/canvas/compute_sketch'
+import { FeedbackSketch } from '@/components/canvas/feedback_sketch'
+import { SceneSketch } from '@/components/canvas/scene_sketch'
+import { ShaderCheck } from '@/components/canvas/shader_check'
+import { TransparentBackground } from '@/components/canvas/transparent_background'
+import { useClockStore } from '@/stores/clock_store'
+import { useSketchStore } from '@/stores/sketch_store'
+import { PostProcessing } from '@/tsl/post_processing/post_processing'
+import { isEmbedCommand, postEmbedEvent, type EmbedCommand } from '@/utils/embed_protocol'
+import { ErrorBoundary } from '@/utils/error_boundary'
+import { getActiveBackend, type ActiveRendererBackend } from '@/utils/renderer_backend'
+import { toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import {
+  isComputeSketch,
+  isFeedbackSketch,
+  isNodeSketch,
+  isSceneSketch,
+  resolveSketchMeta,
+  resolveSketchPostProcessing,
+} from '@/utils/sketch_module'
+import { getSketchRevision, loadSketch, onSketchUpdate, sketchPathToSourcePath } from '@/utils/sketch_registry'
+import { createParamUniforms, getDefaultParamValues, sanitizeParamValues, setParamUniform } from '@/utils/sketch_params'
+import { validateEmbedSearch } from '@/utils/sketch_search'
+import { useSketchInputs } from '@/utils/use_sketch_inputs'
+
+/**
+ * A sketch without any UI, to be embedded in other pages with an iframe:
+ *
+ * ```html
+ * <iframe src="/embed/flare-1?transparent=true&seed=3"></iframe>
+ * ```
+ *
+ * The host page controls it through `postMessage`, see `EmbedCommand` and `EmbedEvent`.
+ */
+export const Route = createFileRoute('/embed/$')({
+  validateSearch: validateEmbedSearch,
+  loader: async ({ params }) => {
+    const sketchPath = params._splat ?? ''
+    const mod = await loadSketch(sketchPath)
+
+    if (!mod) {
+      throw notFound()
+    }
+
+    return {
+      sketchPath,
+      revision: getSketchRevision(sketchPath),
+      // Exactly one of them is set, depending on the sketch's kind
+      colorNode: isNodeSketch(mod) ? mod.default : undefined,
+      scene: isSceneSketch(mod) ? mod.default : undefined,
+      compute: isComputeSketch(mod) ? mod.default : undefined,
+      feedback: isFeedbackSketch(mod) ? mod.default : undefined,
+      display: mod.display,
+      steps: mod.steps,
+      camera: mod.camera,
+      emissive: mod.emissive,
+      params: mod.params,
+      inputs: mod.inputs,
+      postProcessing: mod.postProcessing,
+      meta: resolveSketchMeta(sketchPath, mod.meta),
+    }
+  },
+  component: RouteComponent,
+  errorComponent: ErrorComponent,
+  notFoundComponent: NotFoundComponent,
+})
+
+const CANVAS_STYLE: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+}
+
+/**
+ * Reports an error to the host page and renders nothing, so the host can show its own fallback.
+ */
+function EmbedError({ sketch, message, kind }: { sketch: string; message: string; kind?: ShaderDiagnostic['kind'] }) {
+  useEffect(() => {
+    postEmbedEvent({ type: 'fragments:error', sketch, message, kind })
+  }, [sketch, message, kind])
+
+  return null
+}
+
+function RouteComponent() {
+  const {
+    sketchPath,
+    revision,
+    colorNode,
+    scene,
+    compute,
+    feedback,
+    display,
+    steps,
+    camera,
+    emissive,
+    params,
+    inputs,
+    postProcessing,
+    meta,
+  } = Route.useLoaderData()
+  const search = Route.useSearch()
+  const router = useRouter()
+
+  // State is read from the url once per sketch; afterwards the host page drives it through messages
+  const values = useMemo(
+    () => ({ ...getDefaultParamValues(params), ...sanitizeParamValues(params, search.params) }),
+    [sketchPath, params],
+  )
+  const seed = search.seed ?? 0
+
+  useEffect(() => {
+    useSketchStore.getState().reset({ path: sketchPath, values, seed })
+  }, [sketchPath, values])
+
+  useEffect(() => {
+    useClockStore.getState().reset({ time: search.t, paused: search.paused || search.t !== undefined })
+  }, [sketchPath])
+
+  useEffect(() => {
+    return onSketchUpdate((path) => {
+      if (path === sketchPath) {
+        router.invalidate()
+      }
+    })
+  }, [sketchPath])
+
+  // Embedded sketches show their default inputs; files can't be dropped in
+  const { nodes: inputNodes } = useSketchInputs(inputs, sketchPath)
+  const uniforms = useMemo(
+    () => ({ ...createParamUniforms(params, values), ...inputNodes }),
+    [params, values, inputNodes],
+  )
+  const built = useMemo(() => {
+    try {
+      // Scene, compute and feedback sketches build their own materials
+      if (!colorNode) {
+        return { computeSketch: compute?.(uniforms), post: resolveSketchPostProcessing(postProcessing, uniforms) }
+      }
+
+      return {
+        node: colorNode(uniforms),
+        emissiveNode: emissive?.(uniforms),
+        post: resolveSketchPostProcessing(postProcessing, uniforms),
+      }
+    } catch (error) {
+      return { error: toBuildDiagnostic(error) }
+    }
+  }, [colorNode, compute, emissive, postProcessing, uniforms])
+  const { node, emissiveNode, computeSketch, post } = built
+  const perspective = Boolean(scene || compute)
+
+  const [check, setCheck] = useState<{ node: unknown; diagnostic: ShaderDiagnostic | null }>()
+  const checked = node !== undefined && check?.node === node
+
+  const sceneKey = `${sketchPath}@${revision}`
+  const [sceneCheck, setSceneCheck] = useState<{ key: string; diagnostic: ShaderDiagnostic | null }>()
+  const sceneChecked = !colorNode && sceneCheck?.key === sceneKey
+
+  const diagnostic =
+    built.error ?? (sceneChecked ? (sceneCheck?.diagnostic ?? null) : checked ? (check?.diagnostic ?? null) : null)
+
+  const backend = useRef<ActiveRendererBackend>(undefined)
+  const capture = useRef<CaptureFrame | null>(null)
+
+  useEffect(() => {
+    if ((checked || sceneChecked) && !diagnostic) {
+      postEmbedEvent({ type: 'fragments:ready', sketch: sketchPath, params: params ?? {}, backend: backend.current })
+    }
+  }, [checked, sceneChecked, diagnostic])
+
+  useEffect(() => {
+    const previousTitle = document.title
+    document.title = `${meta.title} - Fragments°`
+
+    return () => {
+      document.title = previousTitle
+    }
+  }, [meta])
+
+  useEffect(() => {
+    const handleCommand = (command: EmbedCommand) => {
+      switch (command.type) {
+        case 'fragments:setParams': {
+          const values = sanitizeParamValues(params, command.params)
+          for (const [key, value] of Object.entries(values)) {
+            setParamUniform(params![key], uniforms[key], value)
+            useSketchStore.getState().setValue(key, value)
+          }
+          break
+        }
+        case 'fragments:play':
+          useClockStore.getState().play()
+          break
+        case 'fragments:pause':
+          useClockStore.getState().pause()
+          break
+        case 'fragments:capture': {
+          const { id, mimeType } = command
+          if (!capture.current) {
+            postEmbedEvent({ type: 'fragments:capture', id, error: 'The sketch is not rendering yet' })
+            break
+          }
+
+          capture
+            .current(mimeType)
+            .then((blob) => postEmbedEvent({ type: 'fragments:capture', id, blob }))
+            .catch((error) => postEmbedEvent({ type: 'fragments:capture', id, error: String(error?.message ?? error) }))
+          break
+        }
+      }
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      // Only the embedding page can drive the sketch
+      if (event.source === window.parent && isEmbedCommand(event.data)) {
+        handleCommand(event.data)
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+
+    return () => {
+      window.removeEventListener('message', handleMessage)
+    }
+  }, [params, uniforms])
+
+  const ref = useRef<any>(null)
+
+  return (
+    <section className='fragments-boilerplate__main__canvas' ref={ref}>
+      <ErrorBoundary
+        resetKeys={[sketchPath, node]}
+        fallback={({ error }) => <EmbedError sketch={sketchPath} message={toBuildDiagnostic(error).message} />}
+      >
+        <Suspense fallback={null}>
+          <WebGPUScene
+            key={search.backend ?? 'auto'}
+            backend={search.backend ?? 'auto'}
+            debug={search.debug}
+            style={CANVAS_STYLE}
+            orthographic={!perspective}
+            eventSource={ref}
+            eventPrefix='client'
+            onCreated={(state) => (backend.current = getActiveBackend(state.gl as unknown as WebGPURenderer))}
+          >
+            {search.transparent ? <TransparentBackground /> : null}
+            {scene ? (
+              <SceneSketch
+                key={sceneKey}
+                component={scene}
+                uniforms={uniforms}
+                camera={camera}
+                onResult={(diagnostic) => setSceneCheck({ key: sceneKey, diagnostic })}
+              />
+            ) : null}
+            {computeSketch ? (
+              <ComputeSketch
+                key={sceneKey}
+                sketch={computeSketch}
+                camera={camera}
+                onResult={(diagnostic) => setSceneCheck({ key: sceneKey, diagnostic })}
+              />
+            ) : null}
+            {feedback ? (
+              <FeedbackSketch
+                key={sceneKey}
+                step={feedback}
+                display={display}
+                steps={steps}
+                uniforms={uniforms}
+                onResult={(diagnostic) => setSceneCheck({ key: sceneKey, diagnostic })}
+              />
+            ) : null}
+            {node ? (
+              <ShaderCheck
+                colorNode={node}
+                emissiveNode={emissiveNode}
+                onResult={(diagnostic) => setCheck({ node, diagnostic })}
+              />
+            ) : null}
+            {checked && !diagnostic ? <WebGPUSketch colorNode={node} emissiveNode={emissiveNode} /> : null}
+            {post ? <PostProcessing effects={post.effects} wrap={post.wrap} /> : null}
+            <FrameCapture onReady={(value) => (capture.current = value)} />
+          </WebGPUScene>
+        </Suspense>
+      </ErrorBoundary>
+
+      {diagnostic ? <EmbedError sketch={sketchPath} message={diagnostic.message} kind={diagnostic.kind} /> : null}
+    </section>
+  )
+}
+
+function ErrorComponent({ error }: ErrorComponentProps) {
+  const { _splat: sketchPath = '' } = Route.useParams()
+
+  return <EmbedError sketch={sketchPath} message={toBuildDiagnostic(error).message} />
+}
+
+function NotFoundComponent() {
+  const { _splat: sketchPath = '' } = Route.useParams()
+
+  return <EmbedError sketch={sketchPath} message={`There is no sketch at ${sketchPathToSourcePath(sketchPath)}`} />
+}
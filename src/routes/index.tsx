@@ -2,8 +2,9 @@ import WebGPUScene from '@/components/canvas/webgpu_scene'
 import { WebGPUSketch } from '@/components/canvas/webgpu_sketch'
 import { SketchesDropdown } from '@/components/sketches_dropdown'
 import { createFileRoute } from '@tanstack/react-router'
-import { Suspense, useRef } from 'react'
-import flare1 from '@/sketches/flare-1'
+import { Suspense, useMemo, useRef } from 'react'
+import flare1, { params } from '@/sketches/flare-1'
+import { createParamUniforms } from '@/utils/sketch_params'
 
 export const Route = createFileRoute('/')({
   component: Index,
@@ -11,6 +12,7 @@ export const Route = createFileRoute('/')({
 
 function Index() {
   const ref = useRef<any>(null)
+  const colorNode = useMemo(() => flare1(createParamUniforms(params)), [])
 
   return (
     <section className='fragments-boilerplate__main__canvas' ref={ref}>
@@ -24,7 +26,7 @@ function Index() {
           eventSource={ref}
           eventPrefix='client'
         >
-          <WebGPUSketch colorNode={flare1()} />
+          <WebGPUSketch colorNode={colorNode} />
         </WebGPUScene>
       </Suspense>
 
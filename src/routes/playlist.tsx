@@ -0,0 +1,231 @@
+import { createFileRoute, notFound, useRouter } from '@tanstack/react-router'
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react'
+import { vec3 } from 'three/tsl'
+import WebGPUScene from '@/components/canvas/webgpu_scene'
+import { PlaylistSketch, type PlaylistSlide } from '@/components/canvas/playlist_sketch'
+import { ShaderErrorOverlay } from '@/components/shader_error_overlay'
+import { SketchesDropdown } from '@/components/sketches_dropdown'
+import { Timeline } from '@/components/timeline'
+import { useClockStore } from '@/stores/clock_store'
+import { useSketchStore } from '@/stores/sketch_store'
+import { ErrorBoundary } from '@/utils/error_boundary'
+import {
+  DEFAULT_ITEM_DURATION,
+  DEFAULT_TRANSITION_DURATION,
+  parsePlaylistItems,
+  parseTransitions,
+} from '@/utils/playlist'
+import { toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import { createInputSlots, getInputNodes, startSketchInputs, type SketchInputSlots } from '@/utils/sketch_inputs'
+import { isNodeSketch } from '@/utils/sketch_module'
+import { createParamUniforms, getDefaultParamValues } from '@/utils/sketch_params'
+import { loadSketch, onSketchUpdate, sketches, sketchPathToSourcePath } from '@/utils/sketch_registry'
+import { validatePlaylistSearch } from '@/utils/sketch_search'
+
+/**
+ * Cycles through sketches with transitions between them, e.g. for installations:
+ *
+ * ```
+ * /playlist?items=flare-1:10,nested/dawn-1:8&transition=dissolve,wipe&transitionDuration=2&kiosk=true
+ * ```
+ *
+ * Without `items`, every sketch plays for `DEFAULT_ITEM_DURATION` seconds.
+ */
+export const Route = createFileRoute('/playlist')({
+  validateSearch: validatePlaylistSearch,
+  loaderDeps: ({ search: { items } }) => ({ items }),
+  loader: async ({ deps }) => {
+    const items = deps.items
+      ? parsePlaylistItems(deps.items)
+      : sketches.map(({ path }) => ({ path, duration: DEFAULT_ITEM_DURATION }))
+
+    const mods = await Promise.all(items.map(({ path }) => loadSketch(path)))
+    const missing = items.filter((_, index) => !mods[index]).map(({ path }) => path)
+    if (items.length === 0 || missing.length > 0) {
+      throw notFound({ data: { missing } })
+    }
+
+    return { items: items.map((item, index) => ({ ...item, mod: mods[index]! })) }
+  },
+  component: RouteComponent,
+  pendingComponent: PendingComponent,
+  notFoundComponent: NotFoundComponent,
+})
+
+const CANVAS_STYLE: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  pointerEvents: 'none',
+}
+
+type SkippedSlide = { path: string; diagnostic: ShaderDiagnostic }
+
+function RouteComponent() {
+  const { items } = Route.useLoaderData()
+  const search = Route.useSearch()
+  const router = useRouter()
+
+  const transitions = useMemo(() => parseTransitions(search.transition), [search.transition])
+  const transitionDuration = search.transitionDuration ?? DEFAULT_TRANSITION_DURATION
+
+  // Every sketch plays with its default params and inputs. Post-processing is left out, as it applies to the whole
+  // canvas
+  const { slides, failed, inputs } = useMemo(() => {
+    const slides: PlaylistSlide[] = []
+    const failed: SkippedSlide[] = []
+    const inputs: SketchInputSlots[] = []
+
+    for (const { path, duration, mod } of items) {
+      try {
+        if (!isNodeSketch(mod)) {
+          throw new Error(`Only sketches that export a color node can be played, not ${mod.kind} sketches`)
+        }
+
+        const slots = createInputSlots(mod.inputs)
+        inputs.push(slots)
+
+        const uniforms = {
+          ...createParamUniforms(mod.params ?? {}, getDefaultParamValues(mod.params)),
+          ...getInputNodes(slots),
+        }
+        const color = mod.default(uniforms)
+        const emissive = mod.emissive?.(uniforms)
+
+        slides.push({ path, duration, node: emissive ? vec3(color).add(emissive) : color })
+      } catch (error) {
+        failed.push({ path, diagnostic: toBuildDiagnostic(error) })
+      }
+    }
+
+    return { slides, failed, inputs }
+  }, [items])
+
+  useEffect(() => {
+    const stops = inputs.map((slots) => startSketchInputs(slots))
+
+    return () => {
+      for (const stop of stops) {
+        stop()
+      }
+    }
+  }, [inputs])
+
+  const [skipped, setSkipped] = useState<SkippedSlide[] | null>(null)
+  const ready = skipped !== null
+  const allSkipped = [...failed, ...(skipped ?? [])]
+
+  useEffect(() => {
+    for (const { path, diagnostic } of allSkipped) {
+      console.warn(`Skipping ${path} in the playlist:`, diagnostic.message)
+    }
+  }, [skipped, failed])
+
+  useEffect(() => {
+    useSketchStore.getState().reset({ seed: search.seed ?? 0 })
+    useClockStore.getState().reset()
+  }, [])
+
+  useEffect(() => {
+    const paths = new Set(items.map(({ path }) => path))
+
+    return onSketchUpdate((path) => {
+      if (paths.has(path)) {
+        router.invalidate()
+      }
+    })
+  }, [items])
+
+  useEffect(() => {
+    const previousTitle = document.title
+    document.title = 'Playlist - Fragments°'
+
+    return () => {
+      document.title = previousTitle
+    }
+  }, [])
+
+  const ref = useRef<any>(null)
+  const nothingPlays = (ready || slides.length === 0) && allSkipped.length === items.length
+
+  return (
+    <section className='fragments-boilerplate__main__canvas' ref={ref} style={search.kiosk ? { cursor: 'none' } : {}}>
+      <ErrorBoundary
+        resetKeys={[slides]}
+        fallback={({ error, reset }) => (
+          <ShaderErrorOverlay diagnostic={toBuildDiagnostic(error)} filePath='src/sketches' onRetry={reset} />
+        )}
+      >
+        <Suspense fallback={null}>
+          <WebGPUScene
+            key={search.backend ?? 'auto'}
+            backend={search.backend ?? 'auto'}
+            debug={search.debug}
+            style={CANVAS_STYLE}
+            eventSource={ref}
+            eventPrefix='client'
+          >
+            {slides.length > 0 ? (
+              <PlaylistSketch
+                slides={slides}
+                transitions={transitions}
+                transitionDuration={transitionDuration}
+                onReady={setSkipped}
+              />
+            ) : null}
+          </WebGPUScene>
+        </Suspense>
+      </ErrorBoundary>
+
+      {nothingPlays ? (
+        <ShaderErrorOverlay
+          diagnostic={allSkipped[0].diagnostic}
+          filePath={sketchPathToSourcePath(allSkipped[0].path)}
+        />
+      ) : !ready && !search.kiosk ? (
+        <div className='sketch-status'>
+          <p className='sketch-status__message'>Compiling {slides.length} sketches…</p>
+        </div>
+      ) : null}
+
+      {search.kiosk ? null : (
+        <>
+          <SketchesDropdown />
+          <Timeline />
+        </>
+      )}
+    </section>
+  )
+}
+
+function PendingComponent() {
+  return (
+    <section className='fragments-boilerplate__main__canvas'>
+      <div className='sketch-status'>
+        <p className='sketch-status__message'>Loading sketches…</p>
+      </div>
+    </section>
+  )
+}
+
+function NotFoundComponent({ data }: { data?: unknown }) {
+  const { missing = [] } = (data ?? {}) as { missing?: string[] }
+
+  return (
+    <section className='fragments-boilerplate__main__canvas'>
+      <div className='sketch-status'>
+        <h1 className='sketch-status__title'>Nothing to play</h1>
+        <p className='sketch-status__message'>
+          List sketches from <code>src/sketches</code> with the seconds each one shows, e.g.{' '}
+          <code>/playlist?items=flare-1:10,nested/dawn-1:8</code>
+          {missing.length > 0 ? (
+            <>
+              . <code>{missing.join(', ')}</code> {missing.length === 1 ? "doesn't" : "don't"} exist.
+            </>
+          ) : null}
+        </p>
+      </div>
+
+      <SketchesDropdown />
+    </section>
+  )
+}
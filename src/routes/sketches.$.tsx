@@ -1,60 +1,397 @@
-import { createFileRoute } from '@tanstack/react-router'
-import { Suspense, useEffect, useRef, useState } from 'react'
+import { createFileRoute, Link, notFound, useRouter } from '@tanstack/react-router'
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react'
 import WebGPUScene from '@/components/canvas/webgpu_scene'
 import { WebGPUSketch } from '@/components/canvas/webgpu_sketch'
-import { SketchesDropdown } from '@/components/sketches_dropdown'
+import { ComputeSketch } from '@/components/canvas/compute_sketch'
+import { FeedbackSketch } from '@/components/canvas/feedback_sketch'
+import { SceneSketch } from '@/components/canvas/scene_sketch'
+import { ShaderCheck } from '@/components/canvas/shader_check'
+import { ShaderSourceCollector } from '@/components/canvas/shader_source_collector'
+import { InputDrop } from '@/components/input_drop'
+import { ShaderErrorOverlay } from '@/components/shader_error_overlay'
+import { ShaderInspector } from '@/components/shader_inspector'
+import {
+  AudioControls,
+  CopyLinkButton,
+  RecordControls,
+  ShaderInspectorButton,
+  SketchesDropdown,
+} from '@/components/sketches_dropdown'
+import { Timeline } from '@/components/timeline'
+import { SketchControls, StillExportControls, type LevaStore } from '@/components/sketch_controls'
+import { useAudioStore } from '@/stores/audio_store'
+import { useClockStore } from '@/stores/clock_store'
+import { useSketchStore } from '@/stores/sketch_store'
+import { PostProcessing, type PostProcessingPass } from '@/tsl/post_processing/post_processing'
+import { ErrorBoundary } from '@/utils/error_boundary'
+import { toBuildDiagnostic, type ShaderDiagnostic } from '@/utils/shader_diagnostics'
+import {
+  isComputeSketch,
+  isFeedbackSketch,
+  isNodeSketch,
+  isSceneSketch,
+  resolveSketchMeta,
+  resolveSketchPostProcessing,
+} from '@/utils/sketch_module'
+import { getSketchRevision, loadSketch, onSketchUpdate, sketchPathToSourcePath } from '@/utils/sketch_registry'
+import { createParamUniforms, getDefaultParamValues, sanitizeParamValues } from '@/utils/sketch_params'
+import { buildSketchSearch, validateSketchSearch } from '@/utils/sketch_search'
+import { useSketchInputs } from '@/utils/use_sketch_inputs'
 
 export const Route = createFileRoute('/sketches/$')({
+  validateSearch: validateSketchSearch,
+  loader: async ({ params }) => {
+    const sketchPath = params._splat ?? ''
+    const mod = await loadSketch(sketchPath)
+
+    if (!mod) {
+      throw notFound()
+    }
+
+    return {
+      sketchPath,
+      revision: getSketchRevision(sketchPath),
+      // Exactly one of them is set, depending on the sketch's kind
+      colorNode: isNodeSketch(mod) ? mod.default : undefined,
+      scene: isSceneSketch(mod) ? mod.default : undefined,
+      compute: isComputeSketch(mod) ? mod.default : undefined,
+      feedback: isFeedbackSketch(mod) ? mod.default : undefined,
+      display: mod.display,
+      steps: mod.steps,
+      camera: mod.camera,
+      emissive: mod.emissive,
+      params: mod.params,
+      inputs: mod.inputs,
+      postProcessing: mod.postProcessing,
+      meta: resolveSketchMeta(sketchPath, mod.meta),
+    }
+  },
   component: RouteComponent,
+  pendingComponent: PendingComponent,
+  notFoundComponent: NotFoundComponent,
 })
 
+// Sketch modules hot-swap through the registry (see `onSketchUpdate`); edits to this route itself still reload
 if (import.meta.hot) {
   import.meta.hot.accept(() => {
     window.location.reload()
   })
 }
 
+/**
+ * Fixed, centered canvas style. When the sketch declares a preferred aspect ratio the canvas is letterboxed to it.
+ */
+const getCanvasStyle = (aspectRatio?: number, interactive = false): React.CSSProperties => {
+  // Orbit controls listen on the canvas itself; otherwise pointer events go to the section (see `eventSource`)
+  const pointerEvents = interactive ? 'auto' : 'none'
+
+  if (!aspectRatio) {
+    return {
+      position: 'fixed',
+      inset: 0,
+      pointerEvents,
+    }
+  }
+
+  return {
+    position: 'fixed',
+    inset: 0,
+    margin: 'auto',
+    width: `min(100vw, ${100 * aspectRatio}vh)`,
+    height: `min(100vh, ${100 / aspectRatio}vw)`,
+    pointerEvents,
+  }
+}
+
 function RouteComponent() {
-  const { _splat: sketchPath } = Route.useParams()
+  const {
+    sketchPath,
+    revision,
+    colorNode,
+    scene,
+    compute,
+    feedback,
+    display,
+    steps,
+    camera,
+    emissive,
+    params,
+    inputs,
+    postProcessing,
+    meta,
+  } = Route.useLoaderData()
+  const search = Route.useSearch()
+  const { backend: backendFlag, debug: debugFlag } = search
+  const navigate = Route.useNavigate()
+  const router = useRouter()
 
-  const [module, setModule] = useState<any>({})
+  // State is restored from the url once per sketch; afterwards the stores are the source of truth.
+  // After a hot update the tweaked values carry over from the store, checked against the new params
+  const defaults = useMemo(() => getDefaultParamValues(params), [params])
+  const { values, seed } = useMemo(() => {
+    const store = useSketchStore.getState()
+    const restored = store.path === sketchPath ? store : { values: search.params, seed: search.seed ?? 0 }
 
-  // Updated glob pattern to include subfolders
-  const sketches: Record<string, { default: () => any }> = import.meta.glob('../sketches/**/*.ts', { eager: true })
+    return { values: { ...defaults, ...sanitizeParamValues(params, restored.values) }, seed: restored.seed }
+  }, [sketchPath, params])
 
   useEffect(() => {
-    // Convert URL path to file path
-    const filePath = `../sketches/${sketchPath}.ts`
-    const mod = sketches[filePath]
-
-    if (mod) {
-      setModule({ colorNode: mod.default })
-    } else {
-      console.error('Sketch not found:', sketchPath)
-    }
+    useSketchStore.getState().reset({ path: sketchPath, values, seed })
+  }, [sketchPath, values, seed])
+
+  useEffect(() => {
+    useClockStore.getState().reset({ time: search.t, paused: search.t !== undefined })
   }, [sketchPath])
 
-  const ref = useRef<any>(null)
+  // Reload the route's data when the sketch module is hot-updated. The renderer and clock are left alone
+  useEffect(() => {
+    return onSketchUpdate((path) => {
+      if (path === sketchPath) {
+        router.invalidate()
+      }
+    })
+  }, [sketchPath])
+
+  // Dropped files replace inputs by setting their texture nodes' values, so the node graph isn't rebuilt either
+  const { nodes: inputNodes, sources: inputSources, replace: replaceInput } = useSketchInputs(inputs, sketchPath)
+  const audioSource = useAudioStore((state) => state.source)
+  const playAudioFile = useAudioStore((state) => state.playFile)
+
+  // Uniforms are created once per sketch; the controls update their values without rebuilding the node graph
+  const uniforms = useMemo(
+    () => ({ ...createParamUniforms(params, values), ...inputNodes }),
+    [params, values, inputNodes],
+  )
+  const built = useMemo(() => {
+    try {
+      // Scene, compute and feedback sketches build their own materials
+      if (!colorNode) {
+        return { computeSketch: compute?.(uniforms), post: resolveSketchPostProcessing(postProcessing, uniforms) }
+      }
 
-  const { colorNode } = module
+      return {
+        node: colorNode(uniforms),
+        emissiveNode: emissive?.(uniforms),
+        post: resolveSketchPostProcessing(postProcessing, uniforms),
+      }
+    } catch (error) {
+      return { error: toBuildDiagnostic(error) }
+    }
+  }, [colorNode, compute, emissive, postProcessing, uniforms])
+  const { node, emissiveNode, computeSketch, post } = built
+  // Scene and compute sketches render with a perspective camera
+  const perspective = Boolean(scene || compute)
+
+  // The sketch only renders nodes that compiled. While new nodes are checked, or when they fail, it keeps the last
+  // ones of the same sketch, so a hot update doesn't flash an empty canvas
+  const [check, setCheck] = useState<{ node: unknown; diagnostic: ShaderDiagnostic | null }>()
+  const [live, setLive] = useState<{ sketchPath: string; node: any; emissiveNode: any }>()
+  const checked = node !== undefined && check?.node === node
+  const liveNodes = live?.sketchPath === sketchPath ? live : undefined
+
+  const onCheck = (diagnostic: ShaderDiagnostic | null) => {
+    setCheck({ node, diagnostic })
+    if (!diagnostic) {
+      setLive({ sketchPath, node, emissiveNode })
+    }
+  }
+
+  // Result of the own check of a scene, compute or feedback sketch, for the one currently mounted
+  const sceneKey = `${sketchPath}@${revision}`
+  const [sceneCheck, setSceneCheck] = useState<{ key: string; diagnostic: ShaderDiagnostic | null }>()
+  const sceneDiagnostic = sceneCheck?.key === sceneKey ? sceneCheck.diagnostic : null
+
+  // Store of the mounted sketch's Leva panel, which the export folder is added to
+  const [controls, setControls] = useState<{ key: string; store: LevaStore }>()
+  const controlsStore = controls?.key === sceneKey ? controls.store : undefined
+
+  const diagnostic = built.error ?? (!colorNode ? sceneDiagnostic : checked ? (check?.diagnostic ?? null) : null)
+
+  // Enabled post-processing passes, for the shader inspector
+  const [passes, setPasses] = useState<PostProcessingPass[]>([])
+
+  useEffect(() => {
+    const previousTitle = document.title
+    document.title = `${meta.title} - Fragments°`
+
+    return () => {
+      document.title = previousTitle
+    }
+  }, [meta])
+
+  const getShareUrl = () => {
+    const { values, seed } = useSketchStore.getState()
+    const { time, paused } = useClockStore.getState()
+    const sketchSearch = buildSketchSearch(defaults, values, seed, paused ? time : undefined)
+    // Developer flags stay in the address bar and the link
+    const search = { ...sketchSearch, backend: backendFlag, debug: debugFlag }
+
+    // Keep the address bar in sync with what was shared
+    navigate({ search, replace: true })
+
+    const location = router.buildLocation({ to: '/sketches/$', params: { _splat: sketchPath }, search })
+    return new URL(location.href, window.location.origin).toString()
+  }
+
+  // Opens the current state against a copy of itself, to tweak one side and compare
+  const openComparison = () => {
+    const { values, seed } = useSketchStore.getState()
+    const { params, ...search } = buildSketchSearch(defaults, values, seed)
+
+    navigate({ to: '/compare', search: { ...search, a: sketchPath, b: sketchPath, aParams: params, bParams: params } })
+  }
+
+  // Base name for exported files, e.g. nested-dawn-1
+  const filename = sketchPath.replace(/\//g, '-')
+  const filePath = sketchPathToSourcePath(sketchPath)
+
+  const ref = useRef<any>(null)
 
   return (
     <section className='fragments-boilerplate__main__canvas' ref={ref}>
-      <Suspense fallback={null}>
-        {colorNode ? (
+      <ErrorBoundary
+        resetKeys={[sketchPath, node]}
+        fallback={({ error, reset }) => (
+          <ShaderErrorOverlay diagnostic={toBuildDiagnostic(error)} filePath={filePath} onRetry={reset} />
+        )}
+      >
+        <Suspense fallback={null}>
           <WebGPUScene
-            style={{
-              position: 'fixed',
-              inset: 0,
-              pointerEvents: 'none',
-            }}
+            // The renderer can't switch backends, so a new one is created instead
+            key={backendFlag ?? 'auto'}
+            backend={backendFlag ?? 'auto'}
+            debug={debugFlag}
+            style={getCanvasStyle(meta.aspectRatio, Boolean(perspective && camera?.controls))}
+            orthographic={!perspective}
             eventSource={ref}
             eventPrefix='client'
           >
-            <WebGPUSketch colorNode={colorNode()} />
+            {scene ? (
+              <SceneSketch
+                key={sceneKey}
+                component={scene}
+                uniforms={uniforms}
+                camera={camera}
+                onResult={(diagnostic) => setSceneCheck({ key: sceneKey, diagnostic })}
+              />
+            ) : null}
+            {computeSketch ? (
+              <ComputeSketch
+                key={sceneKey}
+                sketch={computeSketch}
+                camera={camera}
+                onResult={(diagnostic) => setSceneCheck({ key: sceneKey, diagnostic })}
+              />
+            ) : null}
+            {feedback ? (
+              <FeedbackSketch
+                key={sceneKey}
+                step={feedback}
+                display={display}
+                steps={steps}
+                uniforms={uniforms}
+                onResult={(diagnostic) => setSceneCheck({ key: sceneKey, diagnostic })}
+              />
+            ) : null}
+            {node ? (
+              <>
+                <ShaderCheck colorNode={node} emissiveNode={emissiveNode} onResult={onCheck} />
+                {controlsStore ? (
+                  <StillExportControls
+                    key={sceneKey}
+                    store={controlsStore}
+                    colorNode={node}
+                    emissiveNode={emissiveNode}
+                    aspectRatio={meta.aspectRatio}
+                    filename={filename}
+                  />
+                ) : null}
+              </>
+            ) : null}
+            {liveNodes ? (
+              <>
+                <WebGPUSketch colorNode={liveNodes.node} emissiveNode={liveNodes.emissiveNode} />
+                <ShaderSourceCollector
+                  colorNode={liveNodes.node}
+                  emissiveNode={liveNodes.emissiveNode}
+                  passes={passes}
+                />
+              </>
+            ) : null}
+            {post ? <PostProcessing effects={post.effects} wrap={post.wrap} onPasses={setPasses} /> : null}
           </WebGPUScene>
-        ) : null}
-      </Suspense>
+        </Suspense>
+      </ErrorBoundary>
+
+      {diagnostic ? <ShaderErrorOverlay diagnostic={diagnostic} filePath={filePath} /> : null}
+
+      <InputDrop
+        inputs={inputs}
+        sources={inputSources}
+        onDrop={replaceInput}
+        audio={{ source: audioSource?.name, onDrop: playAudioFile }}
+      />
+
+      <SketchesDropdown
+        actions={
+          <>
+            <CopyLinkButton getUrl={getShareUrl} />
+            <RecordControls filename={filename} />
+            <AudioControls />
+            <ShaderInspectorButton />
+            {colorNode ? (
+              <button onClick={openComparison} className='sketches-toggle__button'>
+                Compare
+              </button>
+            ) : null}
+          </>
+        }
+      />
+
+      <Timeline />
+
+      <ShaderInspector />
+
+      <SketchControls
+        // Remounted after hot updates too, as the panel writes into the uniforms it was created with
+        key={sceneKey}
+        params={params}
+        uniforms={uniforms}
+        values={values}
+        seed={seed}
+        collapsed={!params}
+        onStore={(store) => setControls({ key: sceneKey, store })}
+      />
+    </section>
+  )
+}
+
+function PendingComponent() {
+  return (
+    <section className='fragments-boilerplate__main__canvas'>
+      <div className='sketch-status'>
+        <p className='sketch-status__message'>Loading sketch…</p>
+      </div>
+
+      <SketchesDropdown />
+    </section>
+  )
+}
+
+function NotFoundComponent() {
+  const { _splat: sketchPath } = Route.useParams()
+
+  return (
+    <section className='fragments-boilerplate__main__canvas'>
+      <div className='sketch-status'>
+        <h1 className='sketch-status__title'>Sketch not found</h1>
+        <p className='sketch-status__message'>
+          There is no sketch at <code>src/sketches/{sketchPath}.ts</code>.
+        </p>
+        <Link to='/' className='sketch-status__link'>
+          Back to the start
+        </Link>
+      </div>
 
       <SketchesDropdown />
     </section>
@@ -0,0 +1,42 @@
+import { Fn, length, mix, pow, screenSize, smoothstep, step, uv, vec3 } from 'three/tsl'
+import { audioBass, audioBeat, audioLevel, audioSpectrum, audioTreble } from '@/tsl/audio/audio'
+import { screenAspectUV } from '@/tsl/utils/function/screen_aspect_uv'
+import type { SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Spectrum 1',
+  description: 'Spectrum bars over a ring pulsing with the bass; drop an audio file or turn on the mic',
+  tags: ['audio', 'spectrum', 'animated'],
+}
+
+export const params = {
+  background: { type: 'color', value: '#0b0d12' },
+  low: { type: 'color', value: '#3a7bfd' },
+  high: { type: 'color', value: '#ff5e8a' },
+  gain: { type: 'number', value: 1, min: 0, max: 3, step: 0.01 },
+} satisfies SketchParams
+
+/**
+ * The spectrum as bars along the bottom, lows on the left, and a ring whose radius follows the bass and whose
+ * brightness flashes on beats.
+ */
+const spectrum1 = Fn(({ background, low, high, gain }: SketchUniforms<typeof params>) => {
+  const _uv = screenAspectUV(screenSize)
+  const x = uv().x
+
+  // Bins are linear in frequency; squaring spreads the audible range over the width
+  const loudness = audioSpectrum(pow(x, 2)).mul(gain)
+  const bars = step(uv().y, loudness.mul(0.5))
+  const barColor = mix(low, high, x)
+
+  const radius = audioBass.mul(gain).mul(0.2).add(0.1)
+  const ring = smoothstep(0.02, 0, length(_uv).sub(radius).abs())
+  const ringColor = mix(low, high, audioTreble).mul(audioBeat.add(audioLevel).add(0.3))
+
+  return mix(background, barColor, bars)
+    .add(ringColor.mul(ring))
+    .add(vec3(audioBeat.mul(0.05)))
+})
+
+export default spectrum1
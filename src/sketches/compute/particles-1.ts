@@ -0,0 +1,90 @@
+import { Fn, hash, If, instanceIndex, mix, smoothstep, uint, uv, vec3, vec4 } from 'three/tsl'
+import { curlNoise4d } from '@/tsl/noise/curl_noise_4d'
+import { clockTime } from '@/tsl/time/clock_time'
+import { sketchSeed } from '@/tsl/utils/seed'
+import type { ComputeBufferLayout, ComputeSketch, SketchCamera, SketchKind, SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Particles 1',
+  description: 'Sixteen thousand embers carried by animated curl noise, simulated in a compute shader',
+  tags: ['3d', 'particles', 'compute', 'curl noise', 'animated'],
+}
+
+export const kind: SketchKind = 'compute'
+
+export const camera: SketchCamera = { position: [0, 0, 3], fov: 45, controls: true }
+
+export const params = {
+  speed: { type: 'number', value: 0.4, min: 0, max: 2, step: 0.01 },
+  frequency: { type: 'number', value: 1.2, min: 0.2, max: 4, step: 0.01 },
+  lifetime: { type: 'number', value: 4, min: 0.5, max: 10, step: 0.1 },
+  size: { type: 'number', value: 0.012, min: 0.002, max: 0.05, step: 0.001 },
+  young: { type: 'color', value: '#ffd27a' },
+  old: { type: 'color', value: '#ff3d2e' },
+} satisfies SketchParams
+
+const COUNT = 16384
+
+const buffers = { position: 'vec3', age: 'float' } satisfies ComputeBufferLayout
+
+/**
+ * A random point in a cube of side 1 around the origin, different for every `seed`.
+ */
+const randomPoint = Fn(([seed]) => {
+  const index = uint(seed)
+
+  return vec3(hash(index), hash(index.add(7919)), hash(index.add(15401))).sub(0.5)
+})
+
+/**
+ * Particles spawn in a cube, drift along curl noise and respawn once they are `lifetime` seconds old. Ages start
+ * staggered so they don't all respawn at once.
+ */
+const particles1 = ({
+  speed,
+  frequency,
+  lifetime,
+  size,
+  young,
+  old,
+}: SketchUniforms<typeof params>): ComputeSketch<typeof buffers> => ({
+  count: COUNT,
+  buffers,
+  init: ({ position, age }) => {
+    const seed = instanceIndex.add(uint(sketchSeed).mul(COUNT))
+
+    position.element(instanceIndex).assign(randomPoint(seed))
+    age.element(instanceIndex).assign(hash(seed.add(31337)).mul(lifetime))
+  },
+  update: ({ position, age }, { delta }) => {
+    const p = position.element(instanceIndex)
+    const a = age.element(instanceIndex)
+
+    const flow = curlNoise4d(vec4(p.mul(frequency), clockTime.mul(0.1)))
+    p.addAssign(flow.mul(speed).mul(delta))
+    a.addAssign(delta)
+
+    If(a.greaterThan(lifetime), () => {
+      // Respawn somewhere new each time
+      p.assign(randomPoint(instanceIndex.add(uint(clockTime.mul(1000)).mul(COUNT))))
+      a.assign(0)
+    })
+  },
+  render: {
+    type: 'sprites',
+    position: ({ position }) => position.toAttribute(),
+    color: ({ age }) => mix(young, old, age.toAttribute().div(lifetime)),
+    // Round sprites, fading in after spawning and out before respawning
+    opacity: ({ age }) => {
+      const t = age.toAttribute().div(lifetime)
+      const disc = smoothstep(0.5, 0.2, uv().distance(0.5))
+
+      return disc.mul(smoothstep(0, 0.1, t)).mul(smoothstep(1, 0.7, t))
+    },
+    size: () => size,
+    blending: 'additive',
+  },
+})
+
+export default particles1
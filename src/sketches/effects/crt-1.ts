@@ -0,0 +1,49 @@
+import { Fn, screenSize, vec3, sin, length, mix } from 'three/tsl'
+import { cosinePalette } from '@/tsl/utils/color/cosine_palette'
+import { screenAspectUV } from '@/tsl/utils/function/screen_aspect_uv'
+import { clockTime } from '@/tsl/time/clock_time'
+import { chromaticAberrationEffect } from '@/tsl/post_processing/chromatic_aberration_effect'
+import { crtScanlineEffect } from '@/tsl/post_processing/crt_scanline_effect'
+import { vignetteEffect } from '@/tsl/post_processing/vignette_effect'
+import type { SketchMeta, SketchPostProcessing } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'CRT 1',
+  description: 'Concentric palette rings pushed through a chromatic aberration, scanline and vignette stack',
+  tags: ['post-processing', 'palette', 'animated'],
+}
+
+export const params = {
+  rings: { type: 'number', value: 8, min: 1, max: 32, step: 1 },
+  aberration: { type: 'number', value: 0.01, min: 0, max: 0.05, step: 0.001 },
+  scanlines: { type: 'number', value: 0.3, min: 0, max: 1, step: 0.01 },
+} satisfies SketchParams
+
+/**
+ * The post-processing stack is declared next to the sketch, with args driven by its params.
+ */
+export const postProcessing: SketchPostProcessing<typeof params> = ({ aberration, scanlines }) => ({
+  effects: [
+    { name: 'Chromatic aberration', effect: chromaticAberrationEffect, args: { strength: aberration } },
+    { name: 'Scanlines', effect: crtScanlineEffect, args: { lineIntensity: scanlines, curvature: 0.15 } },
+    { name: 'Vignette', effect: vignetteEffect, args: { smoothing: 0.2, exponent: 3 } },
+  ],
+})
+
+/**
+ * Animated concentric rings colored with a cosine palette.
+ */
+const crt1 = Fn(({ rings }: SketchUniforms<typeof params>) => {
+  const _uv = screenAspectUV(screenSize)
+  const d = length(_uv)
+
+  const wave = sin(d.mul(rings).mul(6.28318).sub(clockTime.mul(2.0)))
+    .mul(0.5)
+    .add(0.5)
+  const col = cosinePalette(d.add(clockTime.mul(0.05)), vec3(0.5), vec3(0.5), vec3(1.0), vec3(0.0, 0.33, 0.67))
+
+  return mix(col.mul(0.2), col, wave)
+})
+
+export default crt1
@@ -0,0 +1,54 @@
+import { Fn, screenSize, vec3, sin, length, abs, smoothstep, mix, atan } from 'three/tsl'
+import { cosinePalette } from '@/tsl/utils/color/cosine_palette'
+import { screenAspectUV } from '@/tsl/utils/function/screen_aspect_uv'
+import { clockTime } from '@/tsl/time/clock_time'
+import { bloomEffect } from '@/tsl/post_processing/bloom_effect'
+import type { SketchMeta, SketchPostProcessing } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Glow 1',
+  description: 'A pulsing neon ring whose emissive output drives a multi-pass bloom',
+  tags: ['post-processing', 'bloom', 'animated'],
+}
+
+export const params = {
+  glow: { type: 'color', value: '#ff3cac' },
+  intensity: { type: 'number', value: 1.5, min: 0, max: 4, step: 0.01 },
+  radius: { type: 'number', value: 0.85, min: 0, max: 1, step: 0.01 },
+} satisfies SketchParams
+
+/**
+ * Only the emissive ring blooms; the background is left untouched.
+ */
+export const postProcessing: SketchPostProcessing<typeof params> = ({ intensity, radius }) => ({
+  effects: [{ name: 'Bloom', effect: bloomEffect, args: { source: 'emissive', intensity, radius } }],
+})
+
+/**
+ * A thin ring with a wobbling radius, written to the emissive MRT target.
+ */
+export const emissive = Fn(({ glow }: SketchUniforms<typeof params>) => {
+  const _uv = screenAspectUV(screenSize)
+  const angle = atan(_uv.y, _uv.x)
+
+  const radius = sin(angle.mul(5).add(clockTime)).mul(0.02).add(0.3)
+  const ring = smoothstep(0.012, 0.0, abs(length(_uv).sub(radius)))
+  const pulse = sin(clockTime.mul(2)).mul(0.25).add(1)
+
+  return glow.mul(ring).mul(pulse).mul(2)
+})
+
+/**
+ * A dark, slowly shifting palette gradient behind the ring.
+ */
+const glow1 = Fn(() => {
+  const _uv = screenAspectUV(screenSize)
+  const d = length(_uv)
+
+  const col = cosinePalette(d.sub(clockTime.mul(0.05)), vec3(0.5), vec3(0.5), vec3(1.0), vec3(0.6, 0.7, 0.8))
+
+  return mix(col.mul(0.08), vec3(0.0), smoothstep(0.2, 1.2, d))
+})
+
+export default glow1
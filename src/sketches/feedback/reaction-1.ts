@@ -0,0 +1,61 @@
+import { float, Fn, mix, screenUV, select, smoothstep, step, vec2, vec3, vec4 } from 'three/tsl'
+import { simplexNoise3d } from '@/tsl/noise/simplex_noise_3d'
+import { screenAspectUV } from '@/tsl/utils/function/screen_aspect_uv'
+import { sketchSeed } from '@/tsl/utils/seed'
+import type { FeedbackDisplay, FeedbackSketch, SketchKind, SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Reaction 1',
+  description: 'Gray-Scott reaction-diffusion growing coral patterns out of noise',
+  tags: ['simulation', 'reaction-diffusion', 'feedback', 'animated'],
+}
+
+export const kind: SketchKind = 'feedback'
+
+// The simulation is stable with one unit of time per step, so it steps a few times per frame instead of using `delta`
+export const steps = 8
+
+export const params = {
+  feed: { type: 'number', value: 0.055, min: 0.01, max: 0.1, step: 0.001 },
+  kill: { type: 'number', value: 0.062, min: 0.04, max: 0.07, step: 0.0005 },
+  background: { type: 'color', value: '#0e1116' },
+  foreground: { type: 'color', value: '#9ef0d0' },
+} satisfies SketchParams
+
+/**
+ * Discrete Laplacian of the state's red and green channels around the current pixel, with a 3x3 kernel.
+ */
+const laplacian = Fn(([previousFrame, texel]) => {
+  const sample = (x: number, y: number) => previousFrame.sample(screenUV.add(vec2(x, y).mul(texel))).rg
+
+  const sides = sample(-1, 0).add(sample(1, 0)).add(sample(0, -1)).add(sample(0, 1))
+  const corners = sample(-1, -1).add(sample(1, -1)).add(sample(-1, 1)).add(sample(1, 1))
+
+  return sides.mul(0.2).add(corners.mul(0.05)).sub(previousFrame.rg)
+})
+
+/**
+ * Two chemicals, A in red and B in green. B feeds on A and decays, A is replenished: where they balance, spots and
+ * stripes grow. The first step seeds B in noise shaped blobs.
+ */
+const reaction1: FeedbackSketch<typeof params> = ({ feed, kill }, { previousFrame, resolution, frame }) => {
+  const a = previousFrame.r
+  const b = previousFrame.g
+  const diffusion = laplacian(previousFrame, vec2(1).div(resolution))
+  const reaction = a.mul(b).mul(b)
+
+  const nextA = a.add(diffusion.x.sub(reaction).add(feed.mul(float(1).sub(a))))
+  const nextB = b.add(diffusion.y.mul(0.5).add(reaction).sub(kill.add(feed).mul(b)))
+
+  const noise = simplexNoise3d(vec3(screenAspectUV(resolution).mul(12), sketchSeed))
+  const seeded = vec4(1, step(0.6, noise), 0, 1)
+
+  return select(frame.equal(0), seeded, vec4(nextA.clamp(), nextB.clamp(), 0, 1))
+}
+
+export const display: FeedbackDisplay<typeof params> = ({ background, foreground }, { state }) => {
+  return mix(background, foreground, smoothstep(0.1, 0.35, state.g))
+}
+
+export default reaction1
@@ -15,11 +15,30 @@ import { abs, Fn, oneMinus, screenSize, uv, vec3, floor, sin, PI, mul, Loop, vec
 import { cosinePalette } from '@/tsl/utils/color/cosine_palette'
 import { screenAspectUV } from '@/tsl/utils/function/screen_aspect_uv'
 import { grainTexturePattern } from '@/tsl/patterns/grain_texture_pattern'
+import { sketchSeed } from '@/tsl/utils/seed'
+import type { SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Flare 1',
+  description: 'A gradient sketch with fractionated coordinates and vertical banding',
+  tags: ['gradient', 'palette', 'grain'],
+  author: 'Ben McCormick (phobon)',
+  license: 'CC BY-NC-SA 4.0',
+}
+
+export const params = {
+  a: { type: 'vec3', value: [0.5, 0.5, 0.5], min: 0, max: 1, step: 0.01 },
+  b: { type: 'vec3', value: [0.5, 0.5, 0.5], min: 0, max: 1, step: 0.01 },
+  c: { type: 'vec3', value: [2.0, 1.0, 0.0], min: 0, max: 4, step: 0.01 },
+  d: { type: 'vec3', value: [0.5, 0.2, 0.25], min: 0, max: 1, step: 0.01 },
+  grain: { type: 'number', value: 0.1, min: 0, max: 0.5, step: 0.01 },
+} satisfies SketchParams
 
 /**
  * A gradient sketch with fractionated coordinates.
  */
-const flare1 = Fn(() => {
+const flare1 = Fn(({ a, b, c, d, grain }: SketchUniforms<typeof params>) => {
   // Get aspect-corrected UVs for the screen
   const _uv = screenAspectUV(screenSize)
   const uv0 = uv().toVar()
@@ -27,12 +46,6 @@ const flare1 = Fn(() => {
   // Color accumulator
   const finalColor = vec3(0).toVar()
 
-  // Palette setup
-  const a = vec3(0.5, 0.5, 0.5)
-  const b = vec3(0.5, 0.5, 0.5)
-  const c = vec3(2.0, 1.0, 0.0)
-  const d = vec3(0.5, 0.2, 0.25)
-
   // Y-repeated pattern for banding
   const repetitions = 12
   const uvR = floor(_uv.y.mul(repetitions))
@@ -55,7 +68,7 @@ const flare1 = Fn(() => {
     finalColor.assign(col.mul(r))
   })
   // Add grain for texture
-  const g = grainTexturePattern(uv0).mul(0.1)
+  const g = grainTexturePattern(uv0.add(sketchSeed)).mul(grain)
   finalColor.addAssign(g)
 
   return finalColor
@@ -0,0 +1,41 @@
+import { Fn, luminance, mix, sin, smoothstep, uv, vec2 } from 'three/tsl'
+import { clockTime } from '@/tsl/time/clock_time'
+import type { SketchInputNodes, SketchInputs } from '@/utils/sketch_inputs'
+import type { SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Duotone 1',
+  description: 'A dropped image or video in two colors, rippling in horizontal bands',
+  tags: ['image', 'video', 'input', 'animated'],
+}
+
+// Drop an image or a video onto the canvas to replace the test card
+export const inputs = {
+  photo: { type: 'image', label: 'Photo', src: '/inputs/test-card.svg', fit: 'cover' },
+  clip: { type: 'video', label: 'Video', fit: 'cover' },
+} satisfies SketchInputs
+
+export const params = {
+  shadow: { type: 'color', value: '#1b1340' },
+  highlight: { type: 'color', value: '#ffb38a' },
+  ripple: { type: 'number', value: 0.004, min: 0, max: 0.03, step: 0.001 },
+} satisfies SketchParams
+
+/**
+ * Maps the brightness of the input to a gradient between two colors. The video shows over the photo once one is
+ * dropped in, as the placeholder of an empty input is transparent.
+ */
+const duotone1 = Fn(
+  ({ photo, clip, shadow, highlight, ripple }: SketchUniforms<typeof params> & SketchInputNodes<typeof inputs>) => {
+    // Inputs are sampled at their fitted uv by default; offset it for the ripple
+    const offset = vec2(sin(uv().y.mul(80).add(clockTime.mul(2))).mul(ripple), 0)
+    const image = photo.sample(photo.uvNode!.add(offset))
+    const video = clip.sample(clip.uvNode!.add(offset))
+    const color = mix(image, video, video.a)
+
+    return mix(shadow, highlight, smoothstep(0.05, 0.95, luminance(color.rgb)))
+  },
+)
+
+export default duotone1
@@ -11,15 +11,36 @@
  * - ShareAlike: Distribute derivatives under the same license
  */
 
-import { Fn, screenSize, vec3, fract, pow, time } from 'three/tsl'
+import { Fn, screenSize, vec3, fract, pow } from 'three/tsl'
 import { cosinePalette } from '@/tsl/utils/color/cosine_palette'
 import { screenAspectUV } from '@/tsl/utils/function/screen_aspect_uv'
 import { grainTexturePattern } from '@/tsl/patterns/grain_texture_pattern'
+import { sketchSeed } from '@/tsl/utils/seed'
+import { clockTime } from '@/tsl/time/clock_time'
+import type { SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams, SketchUniforms } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Dawn 1',
+  description: 'A gradient sketch tribute to Rik Oostenbroek with animated patterns',
+  tags: ['gradient', 'palette', 'grain', 'animated'],
+  author: 'Ben McCormick (phobon)',
+  license: 'CC BY-NC-SA 4.0',
+}
+
+export const params = {
+  a: { type: 'vec3', value: [0.5, 0.5, 0.5], min: 0, max: 1, step: 0.01 },
+  b: { type: 'vec3', value: [0.5, 0.5, 0.5], min: 0, max: 1, step: 0.01 },
+  c: { type: 'vec3', value: [1.0, 1.0, 0.5], min: 0, max: 4, step: 0.01 },
+  d: { type: 'vec3', value: [0.8, 0.9, 0.3], min: 0, max: 1, step: 0.01 },
+  bands: { type: 'number', value: 24, min: 1, max: 64, step: 1 },
+  grain: { type: 'number', value: 0.2, min: 0, max: 0.5, step: 0.01 },
+} satisfies SketchParams
 
 /**
  * A gradient sketch tribute to Rik Oostenbroek.
  */
-export const dawn1 = Fn(() => {
+export const dawn1 = Fn(({ a, b, c, d, bands, grain }: SketchUniforms<typeof params>) => {
   // Get aspect-corrected UVs for the screen
   const _uv = screenAspectUV(screenSize).toVar()
   const uv0 = screenAspectUV(screenSize).toVar()
@@ -27,23 +48,17 @@ export const dawn1 = Fn(() => {
   // Color accumulator
   const finalColor = vec3(0.0).toVar()
 
-  // Palette setup
-  const a = vec3(0.5, 0.5, 0.5)
-  const b = vec3(0.5, 0.5, 0.5)
-  const c = vec3(1.0, 1.0, 0.5)
-  const d = vec3(0.8, 0.9, 0.3)
-
   // Animated vertical gradient using cosine palette
-  const col = cosinePalette(uv0.y.add(0.5).add(time.mul(0.01)), a, b, c, d)
+  const col = cosinePalette(uv0.y.add(0.5).add(clockTime.mul(0.01)), a, b, c, d)
 
   // Repeated sawtooth pattern in Y, softened
-  const repeatedPattern = fract(_uv.y.mul(24)).mul(0.3)
+  const repeatedPattern = fract(_uv.y.mul(bands)).mul(0.3)
 
   // Add pattern to color, boost with pow for punch
   finalColor.assign(col.add(pow(repeatedPattern, 2.0)))
 
   // Add grain for texture
-  const _grain = grainTexturePattern(_uv).mul(0.2)
+  const _grain = grainTexturePattern(_uv.add(sketchSeed)).mul(grain)
   finalColor.addAssign(_grain)
 
   return finalColor
@@ -0,0 +1,70 @@
+import { useEffect, useMemo } from 'react'
+import { float, Fn, mix, normalFlat, normalLocal, positionLocal, vec3 } from 'three/tsl'
+import { MeshStandardNodeMaterial } from 'three/webgpu'
+import { simplexNoise3d } from '@/tsl/noise/simplex_noise_3d'
+import { clockTime } from '@/tsl/time/clock_time'
+import type { SceneSketchProps, SketchCamera, SketchKind, SketchMeta } from '@/utils/sketch_module'
+import type { SketchParams } from '@/utils/sketch_params'
+
+export const meta: SketchMeta = {
+  title: 'Displace 1',
+  description: 'A faceted sphere pushed in and out by animated noise, lit from two sides',
+  tags: ['3d', 'displacement', 'noise', 'animated'],
+}
+
+export const kind: SketchKind = 'scene'
+
+export const camera: SketchCamera = { position: [0, 0.6, 3.2], fov: 45, controls: true }
+
+export const params = {
+  amplitude: { type: 'number', value: 0.25, min: 0, max: 0.6, step: 0.01 },
+  frequency: { type: 'number', value: 1.8, min: 0.5, max: 5, step: 0.01 },
+  low: { type: 'color', value: '#1b1f3a' },
+  high: { type: 'color', value: '#ff7a59' },
+} satisfies SketchParams
+
+/**
+ * Noise at a point of the sphere's surface, drifting over time. From -1 to 1.
+ */
+const displacement = Fn(([position, frequency]) => {
+  return simplexNoise3d(
+    vec3(position)
+      .mul(frequency)
+      .add(vec3(0, clockTime.mul(0.3), 0)),
+  )
+})
+
+/**
+ * The sphere moves its vertices along their normals (`positionNode`), shades the displaced faces flat
+ * (`normalNode`) and colors them by how far they were pushed out (`colorNode`).
+ */
+const Displace1 = ({ uniforms }: SceneSketchProps<typeof params>) => {
+  const { amplitude, frequency, low, high } = uniforms
+
+  const material = useMemo(() => {
+    const material = new MeshStandardNodeMaterial({ roughness: 0.45, metalness: 0.1 })
+    const offset = displacement(positionLocal, frequency)
+
+    material.positionNode = positionLocal.add(normalLocal.mul(offset.mul(amplitude)))
+    material.normalNode = normalFlat
+    material.colorNode = mix(low, high, offset.mul(0.5).add(0.5).pow(float(1.5)))
+
+    return material
+  }, [uniforms])
+
+  useEffect(() => () => material.dispose(), [material])
+
+  return (
+    <>
+      <ambientLight intensity={0.2} />
+      <directionalLight position={[3, 4, 2]} intensity={2.5} />
+      <directionalLight position={[-4, -1, -2]} intensity={0.8} color='#5c7cff' />
+
+      <mesh material={material}>
+        <icosahedronGeometry args={[1, 48]} />
+      </mesh>
+    </>
+  )
+}
+
+export default Displace1
@@ -0,0 +1,60 @@
+import { create } from 'zustand'
+import { playAudioFile, startMicrophone, stopAudio } from '@/utils/audio_input'
+
+export type AudioSource = {
+  kind: 'file' | 'microphone'
+  /** File name, or `Microphone` */
+  name: string
+}
+
+export type AudioStatus = 'idle' | 'loading' | 'playing'
+
+type AudioState = {
+  status: AudioStatus
+  source: AudioSource | null
+  error?: string
+  /** Plays `file` on a loop and drives the audio uniforms with it. Rejects if it doesn't play */
+  playFile: (file: File) => Promise<void>
+  /** Drives the audio uniforms with the microphone. Rejects if it isn't available */
+  startMicrophone: () => Promise<void>
+  stop: () => void
+}
+
+const toMessage = (error: unknown) => {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * The source of the audio uniforms (see `@/tsl/audio/audio`), shared between the overlay controls, file drops and
+ * the scene's `AudioDriver`. It carries over from one sketch to the next.
+ */
+export const useAudioStore = create<AudioState>()((set) => {
+  // Sources that were replaced while they loaded leave the state to the newer one
+  const start = async (source: AudioSource, connect: () => Promise<boolean>) => {
+    set({ status: 'loading', source: null, error: undefined })
+
+    let current: boolean
+    try {
+      current = await connect()
+    } catch (error) {
+      set({ status: 'idle', source: null, error: toMessage(error) })
+      throw error
+    }
+
+    if (current) {
+      set({ status: 'playing', source })
+    }
+  }
+
+  return {
+    status: 'idle',
+    source: null,
+    error: undefined,
+    playFile: (file) => start({ kind: 'file', name: file.name }, () => playAudioFile(file)),
+    startMicrophone: () => start({ kind: 'microphone', name: 'Microphone' }, startMicrophone),
+    stop: () => {
+      stopAudio()
+      set({ status: 'idle', source: null, error: undefined })
+    },
+  }
+})
@@ -0,0 +1,88 @@
+import { create } from 'zustand'
+import { clockTime } from '@/tsl/time/clock_time'
+
+/** Duration of a single step of `step()`, in seconds */
+export const FRAME_DURATION = 1 / 60
+
+export type LoopRange = {
+  enabled: boolean
+  start: number
+  end: number
+}
+
+type ClockState = {
+  time: number
+  paused: boolean
+  /** Playback rate, e.g. `0.5` for half speed. Negative rates play backwards */
+  rate: number
+  loop: LoopRange
+  play: () => void
+  pause: () => void
+  toggle: () => void
+  /** Jumps to `time`, e.g. while scrubbing */
+  setTime: (time: number) => void
+  setRate: (rate: number) => void
+  setLoop: (loop: Partial<LoopRange>) => void
+  /** Pauses and moves by `frames` frames of `FRAME_DURATION` (negative to go back) */
+  step: (frames?: number) => void
+  /** Advances the clock by `delta` seconds of wall time, scaled by `rate`, unless it is paused */
+  tick: (delta: number) => void
+  reset: (options?: { time?: number; paused?: boolean }) => void
+}
+
+const DEFAULT_LOOP: LoopRange = { enabled: false, start: 0, end: 10 }
+
+/**
+ * Wraps `time` into the loop range when looping is enabled and the range is valid. Otherwise it stops at 0, as
+ * playing or stepping backwards would take it below, where it can't be shared (see `validateSketchSearch`).
+ */
+const applyLoop = (time: number, { enabled, start, end }: LoopRange) => {
+  const length = end - start
+  if (!enabled || length <= 0) {
+    return Math.max(time, 0)
+  }
+
+  return start + ((((time - start) % length) + length) % length)
+}
+
+/**
+ * The sketch clock. Its time is mirrored into the `clockTime` uniform.
+ */
+export const useClockStore = create<ClockState>()((set, get) => ({
+  time: 0,
+  paused: false,
+  rate: 1,
+  loop: DEFAULT_LOOP,
+  play: () => set({ paused: false }),
+  pause: () => set({ paused: true }),
+  toggle: () => set({ paused: !get().paused }),
+  setTime: (time) => {
+    clockTime.value = time
+    set({ time })
+  },
+  setRate: (rate) => set({ rate }),
+  setLoop: (loop) => {
+    const next = { ...get().loop, ...loop }
+    set({ loop: next })
+
+    if (next.enabled) {
+      get().setTime(applyLoop(get().time, next))
+    }
+  },
+  step: (frames = 1) => {
+    set({ paused: true })
+    get().setTime(applyLoop(get().time + frames * FRAME_DURATION, get().loop))
+  },
+  tick: (delta) => {
+    const { paused, time, rate, loop } = get()
+    if (paused) {
+      return
+    }
+
+    get().setTime(applyLoop(time + delta * rate, loop))
+  },
+  reset: ({ time = 0, paused = false } = {}) => {
+    clockTime.value = time
+    set({ time, paused, rate: 1, loop: DEFAULT_LOOP })
+  },
+}))
@@ -0,0 +1,58 @@
+import { create } from 'zustand'
+import type { RecordingFormat } from '@/utils/recording'
+
+export type RecorderStatus = 'idle' | 'recording' | 'encoding'
+
+type RecorderOptions = {
+  format: RecordingFormat
+  fps: number
+  /** Seconds of sketch time to record */
+  duration: number
+  /** Download name, without extension */
+  filename: string
+}
+
+type RecorderState = RecorderOptions & {
+  status: RecorderStatus
+  /** Frames captured so far */
+  frame: number
+  /** Frames in the whole recording */
+  frames: number
+  error?: string
+  setOptions: (options: Partial<RecorderOptions>) => void
+  /** Requests a recording; picked up by the `FrameRecorder` inside the scene */
+  start: (options?: Partial<RecorderOptions>) => void
+  /** Ends the recording early and packages the frames captured so far */
+  stop: () => void
+  setProgress: (frame: number, frames: number) => void
+  setStatus: (status: RecorderStatus, error?: string) => void
+}
+
+/**
+ * Recording options and progress, shared between the overlay controls and the scene's `FrameRecorder`.
+ */
+export const useRecorderStore = create<RecorderState>()((set, get) => ({
+  format: 'png',
+  fps: 30,
+  duration: 5,
+  filename: 'sketch',
+  status: 'idle',
+  frame: 0,
+  frames: 0,
+  error: undefined,
+  setOptions: (options) => set(options),
+  start: (options) => {
+    if (get().status !== 'idle') {
+      return
+    }
+
+    set({ ...options, status: 'recording', frame: 0, frames: 0, error: undefined })
+  },
+  stop: () => {
+    if (get().status === 'recording') {
+      set({ status: 'encoding' })
+    }
+  },
+  setProgress: (frame, frames) => set({ frame, frames }),
+  setStatus: (status, error) => set({ status, error }),
+}))
@@ -0,0 +1,38 @@
+import { create } from 'zustand'
+import type { ShaderCode, ShaderLanguage } from '@/utils/shader_diagnostics'
+
+/**
+ * Generated code for one material: the sketch itself or a post-processing pass.
+ */
+export type ShaderSource = ShaderCode & {
+  name: string
+  language: ShaderLanguage
+}
+
+export type ShaderInspectorStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+type ShaderInspectorState = {
+  open: boolean
+  status: ShaderInspectorStatus
+  sources: ShaderSource[]
+  error?: string
+  toggle: () => void
+  setOpen: (open: boolean) => void
+  setSources: (sources: ShaderSource[]) => void
+  setStatus: (status: ShaderInspectorStatus, error?: string) => void
+}
+
+/**
+ * Generated shader code of the active sketch, shared between the scene's `ShaderSourceCollector` and the
+ * `ShaderInspector` panel. Sources are only collected while the inspector is open.
+ */
+export const useShaderInspectorStore = create<ShaderInspectorState>()((set, get) => ({
+  open: false,
+  status: 'idle',
+  sources: [],
+  error: undefined,
+  toggle: () => get().setOpen(!get().open),
+  setOpen: (open) => set(open ? { open } : { open, status: 'idle', sources: [], error: undefined }),
+  setSources: (sources) => set({ sources, status: 'ready', error: undefined }),
+  setStatus: (status, error) => set({ status, error }),
+}))
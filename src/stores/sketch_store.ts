@@ -0,0 +1,31 @@
+import { create } from 'zustand'
+import { sketchSeed } from '@/tsl/utils/seed'
+import type { SketchParamValue, SketchParamValues } from '@/utils/sketch_params'
+
+type SketchState = {
+  /** Path of the sketch the values belong to */
+  path: string | null
+  values: SketchParamValues
+  seed: number
+  setValue: (key: string, value: SketchParamValue) => void
+  setSeed: (seed: number) => void
+  reset: (options?: { path?: string | null; values?: SketchParamValues; seed?: number }) => void
+}
+
+/**
+ * Current parameter values and seed of the active sketch. The seed is mirrored into the `sketchSeed` uniform.
+ */
+export const useSketchStore = create<SketchState>()((set) => ({
+  path: null,
+  values: {},
+  seed: 0,
+  setValue: (key, value) => set((state) => ({ values: { ...state.values, [key]: value } })),
+  setSeed: (seed) => {
+    sketchSeed.value = seed
+    set({ seed })
+  },
+  reset: ({ path = null, values = {}, seed = 0 } = {}) => {
+    sketchSeed.value = seed
+    set({ path, values, seed })
+  },
+}))
@@ -0,0 +1,47 @@
+import { Fn, texture, uniform, vec2 } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import type { UniformNode } from 'three/webgpu'
+import { AUDIO_FFT_SIZE } from '@/utils/audio_analysis'
+
+/**
+ * Loudness of the playing audio's low frequencies (20 to 250 Hz), 0 to 1, smoothed. Driven by the `AudioDriver`,
+ * like the other audio uniforms; they are all 0 while no audio plays.
+ */
+export const audioBass = uniform(0) as UniformNode<number>
+
+/** Loudness of the playing audio's middle frequencies (250 to 2000 Hz), 0 to 1, smoothed */
+export const audioMid = uniform(0) as UniformNode<number>
+
+/** Loudness of the playing audio's high frequencies (2 to 16 kHz), 0 to 1, smoothed */
+export const audioTreble = uniform(0) as UniformNode<number>
+
+/** RMS of the playing audio, 0 to 1, smoothed */
+export const audioLevel = uniform(0) as UniformNode<number>
+
+/** 1 when a beat starts in the bass, falling back to 0 until the next one */
+export const audioBeat = uniform(0) as UniformNode<number>
+
+/**
+ * The playing audio's spectrum: one texel per frequency bin, from 0 Hz on the left to half the sample rate on the
+ * right, each holding the bin's loudness (0 to 1) in its red channel.
+ */
+export const audioSpectrumTexture = new THREE.DataTexture(
+  new Uint8Array(AUDIO_FFT_SIZE / 2),
+  AUDIO_FFT_SIZE / 2,
+  1,
+  THREE.RedFormat,
+  THREE.UnsignedByteType,
+)
+audioSpectrumTexture.minFilter = THREE.LinearFilter
+audioSpectrumTexture.magFilter = THREE.LinearFilter
+audioSpectrumTexture.needsUpdate = true
+
+/**
+ * Loudness of the playing audio at a point of its spectrum, 0 to 1.
+ * @param {float} x - 0 for the lowest frequency, 1 for half the sample rate (usually 22 or 24 kHz). Bins are spread
+ * linearly, so most of what is audible sits in the left part; `pow(x, 2)` spreads it out.
+ * @returns {float} The loudness.
+ */
+export const audioSpectrum = Fn(([x]) => {
+  return texture(audioSpectrumTexture, vec2(x, 0.5)).r
+})
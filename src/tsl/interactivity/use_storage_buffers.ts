@@ -12,6 +12,20 @@ export type ShaderBuffer = {
 
 export type ShaderBuffers<T extends string> = Record<T, ShaderBuffer>
 
+/**
+ * Flags a storage attribute for upload after its `array` was written on the CPU.
+ * On the WebGL2 backend, shaders read storage buffers through a texture that shares the attribute's array
+ * (`attribute.pbo`), so that texture is flagged too.
+ */
+export const markStorageBufferUpdate = (attribute: THREE.StorageInstancedBufferAttribute) => {
+  attribute.needsUpdate = true
+
+  const pbo = (attribute as any).pbo as THREE.Texture | undefined
+  if (pbo) {
+    pbo.needsUpdate = true
+  }
+}
+
 /**
  * Creates storage buffers for use in shaders.
  * Each buffer has an 'active' array (tracks which slots are in use) and a 'values' array (stores animation values).
@@ -1,7 +1,8 @@
 import { useFrame } from '@react-three/fiber'
 import { useRef, useCallback } from 'react'
 import { animate } from 'motion'
-import type { ShaderBuffer } from './use_storage_buffers'
+import { useClockStore } from '@/stores/clock_store'
+import { markStorageBufferUpdate, type ShaderBuffer } from './use_storage_buffers'
 
 export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'spring'
 
@@ -19,7 +20,10 @@ export type TriggerOptions = {
 }
 
 type AnimationState = {
-  startTime: number
+  /** Clock time of the animation's last frame, set on its first one */
+  lastTime: number | null
+  /** Clock time the animation has run for */
+  elapsed: number
   duration: number
   easing: EasingType
   targetValue: number
@@ -32,6 +36,10 @@ type AnimationState = {
  * Supports both manual easing functions (linear, easeIn, easeOut, easeInOut) and
  * spring animations via Motion. Each animation occupies a slot in the buffer until completion.
  *
+ * Animations follow the sketch clock (`useClockStore`): they hold while it is paused and run at its playback rate.
+ * Manual easings are timed in clock time, so they also follow stepping and scrubbing forward. Time going backwards
+ * (playing in reverse, the loop wrapping around or scrubbing back) ends them, as they would never finish otherwise.
+ *
  * @param buffer - The shader buffer to animate
  * @param dataBuffers - Optional additional buffers to store extra data (e.g., position, color)
  * @returns trigger function to start new animations
@@ -57,11 +65,13 @@ export const useStorageTrigger = (buffer: ShaderBuffer, dataBuffers?: Record<str
   const animationsRef = useRef<Map<number, AnimationState | ReturnType<typeof animate>>>(new Map())
 
   // Animation frame loop - updates manual easing animations each frame
-  useFrame((state) => {
+  useFrame(() => {
     if (!buffer) {
       return
     }
 
+    const { time, paused, rate } = useClockStore.getState()
+
     const bufferSize = buffer.activeBuffer.array.length
 
     for (let i = 0; i < bufferSize; i++) {
@@ -72,12 +82,14 @@ export const useStorageTrigger = (buffer: ShaderBuffer, dataBuffers?: Record<str
 
         // Check if it's a manual animation (has easing property, not a spring)
         if (anim && 'easing' in anim && anim.easing !== 'spring') {
-          // Initialize startTime on first frame if not set
-          if (anim.startTime === 0) {
-            anim.startTime = state.clock.elapsedTime
+          // Initialize lastTime on first frame if not set
+          if (anim.lastTime === null) {
+            anim.lastTime = time
           }
-          const elapsed = state.clock.elapsedTime - anim.startTime
-          const progress = Math.min(elapsed / anim.duration, 1)
+          const rewound = time < anim.lastTime
+          anim.elapsed += Math.max(time - anim.lastTime, 0)
+          anim.lastTime = time
+          const progress = rewound ? 1 : Math.min(anim.elapsed / anim.duration, 1)
 
           // Apply easing function
           let easedProgress = progress
@@ -90,16 +102,22 @@ export const useStorageTrigger = (buffer: ShaderBuffer, dataBuffers?: Record<str
           }
 
           buffer.valuesBuffer.array[i] = easedProgress * anim.targetValue
-          buffer.valuesBuffer.needsUpdate = true
+          markStorageBufferUpdate(buffer.valuesBuffer)
 
           // Clean up completed animations
           if (progress >= 1) {
             buffer.activeBuffer.array[i] = 0
             buffer.valuesBuffer.array[i] = 0
-            buffer.activeBuffer.needsUpdate = true
-            buffer.valuesBuffer.needsUpdate = true
+            markStorageBufferUpdate(buffer.activeBuffer)
+            markStorageBufferUpdate(buffer.valuesBuffer)
             animationsRef.current.delete(i)
           }
+        } else if (anim && 'speed' in anim) {
+          // Springs run on wall time, so mirror the clock's pause state and rate. They can't run backwards; hold them
+          const speed = paused ? 0 : Math.max(rate, 0)
+          if (anim.speed !== speed) {
+            anim.speed = speed
+          }
         }
       }
     }
@@ -135,14 +153,14 @@ export const useStorageTrigger = (buffer: ShaderBuffer, dataBuffers?: Record<str
 
       // Mark slot as active
       buffer.activeBuffer.array[firstZeroIndex] = 1
-      buffer.activeBuffer.needsUpdate = true
+      markStorageBufferUpdate(buffer.activeBuffer)
 
       // Store additional data in data buffers
       if (dataBuffers) {
         Object.entries(data).forEach(([key, value]) => {
           if (dataBuffers[key]) {
             dataBuffers[key].valuesBuffer.array[firstZeroIndex] = value
-            dataBuffers[key].valuesBuffer.needsUpdate = true
+            markStorageBufferUpdate(dataBuffers[key].valuesBuffer)
           }
         })
       }
@@ -155,22 +173,23 @@ export const useStorageTrigger = (buffer: ShaderBuffer, dataBuffers?: Record<str
           damping: springConfig.damping,
           onUpdate: (v) => {
             buffer.valuesBuffer.array[firstZeroIndex] = v
-            buffer.valuesBuffer.needsUpdate = true
+            markStorageBufferUpdate(buffer.valuesBuffer)
           },
           onComplete: () => {
             buffer.activeBuffer.array[firstZeroIndex] = 0
             buffer.valuesBuffer.array[firstZeroIndex] = 0
-            buffer.activeBuffer.needsUpdate = true
-            buffer.valuesBuffer.needsUpdate = true
+            markStorageBufferUpdate(buffer.activeBuffer)
+            markStorageBufferUpdate(buffer.valuesBuffer)
             animationsRef.current.delete(firstZeroIndex)
           },
         })
         animationsRef.current.set(firstZeroIndex, anim)
       } else {
         // Manual easing for linear/easeIn/easeOut/easeInOut
-        // Start time will be set in useFrame using state.clock.elapsedTime
+        // Elapsed time is counted in useFrame using the sketch clock
         animationsRef.current.set(firstZeroIndex, {
-          startTime: 0, // Will be set in useFrame
+          lastTime: null, // Will be set in useFrame
+          elapsed: 0,
           duration,
           easing,
           targetValue,
@@ -182,4 +201,3 @@ export const useStorageTrigger = (buffer: ShaderBuffer, dataBuffers?: Record<str
 
   return trigger
 }
-
@@ -0,0 +1,281 @@
+import {
+  HalfFloatType,
+  NodeMaterial,
+  NodeUpdateType,
+  QuadMesh,
+  RenderTarget,
+  RendererUtils,
+  TempNode,
+  Vector2,
+  type Node,
+  type NodeBuilder,
+  type NodeFrame,
+  type TextureNode,
+  type UniformNode,
+} from 'three/webgpu'
+import {
+  Fn,
+  float,
+  luminance,
+  mix,
+  nodeObject,
+  passTexture,
+  smoothstep,
+  texture,
+  uniform,
+  uv,
+  vec2,
+  vec4,
+} from 'three/tsl'
+import { setBuildArgs } from './pipeline'
+
+const _quadMesh = /*@__PURE__*/ new QuadMesh()
+const _size = /*@__PURE__*/ new Vector2()
+let _rendererState: ReturnType<typeof RendererUtils.resetRendererState>
+
+/**
+ * 13-tap downsample (Jimenez, "Next Generation Post Processing in Call of Duty: Advanced Warfare").
+ * Averages overlapping 4x4 boxes, which keeps fireflies from flickering as the image moves.
+ */
+const downsample13 = (sample: (offset: any) => any, texelSize: any) => {
+  const s = (x: number, y: number) => sample(vec2(x, y).mul(texelSize))
+
+  const center = s(0, 0).mul(0.125)
+  const inner = s(-1, 1).add(s(1, 1)).add(s(-1, -1)).add(s(1, -1)).mul(0.125)
+  const corners = s(-2, 2).add(s(2, 2)).add(s(-2, -2)).add(s(2, -2)).mul(0.03125)
+  const edges = s(0, 2).add(s(-2, 0)).add(s(2, 0)).add(s(0, -2)).mul(0.0625)
+
+  return center.add(inner).add(corners).add(edges)
+}
+
+/**
+ * 9-tap tent filter used while walking back up the mip chain.
+ */
+const upsampleTent = (sample: (offset: any) => any, texelSize: any) => {
+  const s = (x: number, y: number) => sample(vec2(x, y).mul(texelSize))
+
+  const center = s(0, 0).mul(4)
+  const edges = s(0, 1).add(s(-1, 0)).add(s(1, 0)).add(s(0, -1)).mul(2)
+  const corners = s(-1, 1).add(s(1, 1)).add(s(-1, -1)).add(s(1, -1))
+
+  return center.add(edges).add(corners).div(16)
+}
+
+const createRenderTarget = (name: string) => {
+  const renderTarget = new RenderTarget(1, 1, { depthBuffer: false, type: HalfFloatType })
+  renderTarget.texture.name = name
+  renderTarget.texture.generateMipmaps = false
+
+  return renderTarget
+}
+
+/**
+ * Multi-pass bloom: prefilter + downsample into a chain of half-size targets, then tent-upsample back up,
+ * blending each level with the one below it.
+ */
+class BloomMipChainNode extends TempNode {
+  static get type() {
+    return 'BloomMipChainNode'
+  }
+
+  sourceNode: TextureNode
+  threshold: Node
+  radius: Node
+  smoothWidth: UniformNode<number>
+  levels: number
+  updateBeforeType = NodeUpdateType.FRAME
+
+  private _downTargets: RenderTarget[] = []
+  private _upTargets: RenderTarget[] = []
+  private _downMaterials: NodeMaterial[] = []
+  private _upMaterials: NodeMaterial[] = []
+  private _texelSizes: UniformNode<Vector2>[] = []
+  private _textureOutput: TextureNode
+
+  constructor(
+    sourceNode: TextureNode,
+    { threshold, radius, levels }: { threshold: Node; radius: Node; levels: number },
+  ) {
+    super('vec4')
+
+    this.sourceNode = sourceNode
+    this.threshold = nodeObject(threshold)
+    this.radius = nodeObject(radius)
+    this.smoothWidth = uniform(0.05)
+    this.levels = Math.max(1, Math.floor(levels))
+
+    for (let i = 0; i < this.levels; i++) {
+      this._downTargets.push(createRenderTarget(`Bloom.down${i}`))
+      this._texelSizes.push(uniform(new Vector2()))
+    }
+
+    // up[i] holds the blend of level i with everything below it; the smallest level has nothing to blend with
+    for (let i = 0; i < this.levels - 1; i++) {
+      this._upTargets.push(createRenderTarget(`Bloom.up${i}`))
+    }
+
+    const output = this.levels > 1 ? this._upTargets[0] : this._downTargets[0]
+    this._textureOutput = passTexture(this as any, output.texture)
+  }
+
+  getTextureNode() {
+    return this._textureOutput
+  }
+
+  setSize(width: number, height: number) {
+    // The prefilter samples the full-size source
+    let sourceWidth = width
+    let sourceHeight = height
+
+    for (let i = 0; i < this.levels; i++) {
+      const levelWidth = Math.max(1, Math.round(sourceWidth / 2))
+      const levelHeight = Math.max(1, Math.round(sourceHeight / 2))
+
+      this._downTargets[i].setSize(levelWidth, levelHeight)
+      this._upTargets[i]?.setSize(levelWidth, levelHeight)
+      this._texelSizes[i].value.set(1 / sourceWidth, 1 / sourceHeight)
+
+      sourceWidth = levelWidth
+      sourceHeight = levelHeight
+    }
+  }
+
+  updateBefore(frame: NodeFrame) {
+    const { renderer } = frame
+    if (!renderer) {
+      return
+    }
+
+    _rendererState = RendererUtils.resetRendererState(renderer, _rendererState)
+
+    const size = renderer.getDrawingBufferSize(_size)
+    this.setSize(size.width, size.height)
+
+    // 1. Prefilter + downsample
+    for (let i = 0; i < this.levels; i++) {
+      renderer.setRenderTarget(this._downTargets[i])
+      _quadMesh.material = this._downMaterials[i]
+      _quadMesh.name = `Bloom [ Downsample - ${i} ]`
+      _quadMesh.render(renderer)
+    }
+
+    // 2. Upsample, from the smallest level back to the largest
+    for (let i = this.levels - 2; i >= 0; i--) {
+      renderer.setRenderTarget(this._upTargets[i])
+      _quadMesh.material = this._upMaterials[i]
+      _quadMesh.name = `Bloom [ Upsample - ${i} ]`
+      _quadMesh.render(renderer)
+    }
+
+    RendererUtils.restoreRendererState(renderer, _rendererState)
+  }
+
+  setup(builder: NodeBuilder) {
+    const uvNode = uv()
+
+    for (let i = 0; i < this.levels; i++) {
+      const texelSize = this._texelSizes[i]
+
+      let fragmentNode
+      if (i === 0) {
+        const prefilter = Fn(() => {
+          const color = downsample13((offset) => this.sourceNode.sample(uvNode.add(offset)), texelSize)
+          const weight = smoothstep(this.threshold, this.threshold.add(this.smoothWidth), luminance(color.rgb))
+
+          return vec4(color.rgb.mul(weight), 1)
+        })
+        fragmentNode = prefilter()
+      } else {
+        const previous = texture(this._downTargets[i - 1].texture)
+        fragmentNode = downsample13((offset) => previous.sample(uvNode.add(offset)), texelSize)
+      }
+
+      const material = this._downMaterials[i] || new NodeMaterial()
+      material.fragmentNode = fragmentNode.context(builder.getSharedContext())
+      material.name = 'Bloom_downsample'
+      material.needsUpdate = true
+      this._downMaterials[i] = material
+    }
+
+    for (let i = 0; i < this.levels - 1; i++) {
+      const current = texture(this._downTargets[i].texture)
+      const below = texture(i === this.levels - 2 ? this._downTargets[i + 1].texture : this._upTargets[i + 1].texture)
+      const belowTexelSize = this._texelSizes[i + 1]
+
+      // `radius` shifts the weight from the tight, high resolution levels to the wide, low resolution ones
+      const upsample = Fn(() => {
+        const wide = upsampleTent((offset) => below.sample(uvNode.add(offset)), belowTexelSize)
+        return vec4(mix(current.sample(uvNode).rgb, wide.rgb, this.radius), 1)
+      })
+
+      const material = this._upMaterials[i] || new NodeMaterial()
+      material.fragmentNode = upsample().context(builder.getSharedContext())
+      material.name = 'Bloom_upsample'
+      material.needsUpdate = true
+      this._upMaterials[i] = material
+    }
+
+    return this._textureOutput
+  }
+
+  dispose() {
+    this._downTargets.forEach((renderTarget) => renderTarget.dispose())
+    this._upTargets.forEach((renderTarget) => renderTarget.dispose())
+    this._downMaterials.forEach((material) => material.dispose())
+    this._upMaterials.forEach((material) => material.dispose())
+
+    super.dispose()
+  }
+}
+
+/**
+ * Creates a multi-pass bloom effect for post-processing.
+ *
+ * Unlike the other effects this one renders into its own chain of render targets every frame, so it is a plain
+ * function rather than a `Fn`. Its resources are released when the post-processing pipeline is disposed.
+ *
+ * @param {Object} props - Effect parameters
+ * @param {vec4} props.input - The input color texture from the scene
+ * @param {vec4} [props.emissive] - The emissive texture from the scene's MRT (provided by the pipeline)
+ * @param {'threshold'|'emissive'} [props.source='threshold'] - Bloom bright parts of `input`, or `emissive` only
+ * @param {number} [props.intensity=1.0] - Strength of the bloom added on top of the input
+ * @param {number} [props.radius=0.85] - Spread of the bloom (0 = tight, 1 = wide)
+ * @param {number} [props.threshold] - Luminance the bloom starts at (defaults to 0.8, or 0 for `emissive`)
+ * @param {number} [props.levels=5] - Number of mip levels in the chain. Changing it rebuilds the pipeline
+ * @returns {vec4} The input with bloom added
+ */
+export const bloomEffect = (props: Record<string, any>) => {
+  const {
+    input,
+    emissive,
+    inputUV = uv,
+    source = 'threshold',
+    intensity = 1.0,
+    radius = 0.85,
+    threshold = source === 'emissive' ? 0 : 0.8,
+    levels = 5,
+  } = props || {}
+
+  // Anything else, e.g. a uniform, would make a chain of `NaN` levels
+  if (typeof levels !== 'number' || !Number.isFinite(levels)) {
+    throw new Error(
+      `bloomEffect: \`levels\` has to be a number, not ${typeof levels === 'number' ? levels : typeof levels}`,
+    )
+  }
+
+  const sourceNode = source === 'emissive' && emissive ? emissive : input
+  const bloomNode = new BloomMipChainNode(sourceNode, {
+    threshold: float(threshold),
+    radius: float(radius),
+    levels,
+  })
+
+  const _uv = inputUV()
+  const originalColor = input.sample(_uv)
+  const bloomColor = bloomNode.getTextureNode().sample(_uv).rgb.mul(float(intensity))
+
+  return vec4(originalColor.rgb.add(bloomColor), originalColor.a)
+}
+
+// The chain length has to be known up-front, so the pipeline passes it as a plain number
+setBuildArgs(bloomEffect, ['levels'])
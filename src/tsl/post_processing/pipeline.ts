@@ -0,0 +1,270 @@
+import { mrt, pass, emissive, output, uniform, convertToTexture, Fn } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import type { UniformNode } from 'three/webgpu'
+
+/**
+ * A single step in a post-processing chain.
+ *
+ * - `effect`: One of the `*Effect` functions in this folder, or any `Fn` taking `{ input, ...args }`
+ * - `args`: Effect arguments. Numbers, vectors (`THREE.Vector*`, `THREE.Color` or `[x, y(, z, w)]` arrays) become
+ *   uniforms, so changing them is cheap. Anything else (nodes, functions, `null`) is baked into the pipeline, like
+ *   the args an effect reads while it is built (see `setBuildArgs`).
+ * - `enabled`: Defaults to `true`
+ * - `name`: Label for the step, e.g. in the shader inspector. Defaults to `Effect <n>`
+ */
+export type PostProcessingEffect = {
+  effect: Fn
+  args?: Record<string, any>
+  enabled?: boolean
+  name?: string
+}
+
+/**
+ * One enabled step of a built pipeline. `node` is the step's output, rendered on a fullscreen quad.
+ */
+export type PostProcessingPass = {
+  name: string
+  node: THREE.Node
+}
+
+export type PostProcessingWrap = 'none' | 'repeat' | 'mirror'
+
+export type PostProcessingPipeline = {
+  postProcessing: THREE.PostProcessing
+  passes: PostProcessingPass[]
+  /** Pushes new arg values into the pipeline's uniforms. Expects the same structure it was built with */
+  update: (effects: PostProcessingEffect[]) => void
+  dispose: () => void
+}
+
+type UniformKind = 'number' | 'vec2' | 'vec3' | 'vec4' | 'color'
+
+const getUniformKind = (value: unknown): UniformKind | null => {
+  if (typeof value === 'number') {
+    return 'number'
+  }
+
+  if (value instanceof THREE.Color) {
+    return 'color'
+  }
+
+  if (value instanceof THREE.Vector2 || value instanceof THREE.Vector3 || value instanceof THREE.Vector4) {
+    return `vec${value instanceof THREE.Vector2 ? 2 : value instanceof THREE.Vector3 ? 3 : 4}`
+  }
+
+  if (Array.isArray(value) && value.length >= 2 && value.length <= 4 && value.every((v) => typeof v === 'number')) {
+    return `vec${value.length as 2 | 3 | 4}`
+  }
+
+  return null
+}
+
+const createArgUniform = (kind: UniformKind, value: any): UniformNode<any> => {
+  switch (kind) {
+    case 'number':
+      return uniform(value)
+    case 'color':
+      return uniform(value.clone())
+    case 'vec2':
+      return uniform(Array.isArray(value) ? new THREE.Vector2().fromArray(value) : value.clone())
+    case 'vec3':
+      return uniform(Array.isArray(value) ? new THREE.Vector3().fromArray(value) : value.clone())
+    case 'vec4':
+      return uniform(Array.isArray(value) ? new THREE.Vector4().fromArray(value) : value.clone())
+  }
+}
+
+const setArgUniform = (node: UniformNode<any>, value: any) => {
+  if (typeof value === 'number') {
+    node.value = value
+  } else if (Array.isArray(value)) {
+    node.value.fromArray(value)
+  } else {
+    node.value.copy(value)
+  }
+}
+
+const buildArgKeys = new WeakMap<object, Set<string>>()
+
+/**
+ * Marks args of `effect` that it only reads while the pipeline is built, e.g. how many passes it renders. They are
+ * passed as they are rather than as uniforms, and changing one rebuilds the pipeline.
+ */
+export const setBuildArgs = (effect: object, keys: string[]) => {
+  buildArgKeys.set(effect, new Set(keys))
+}
+
+const isBuildArg = (effect: object, key: string) => {
+  return buildArgKeys.get(effect)?.has(key) ?? false
+}
+
+const objectIds = new WeakMap<object, number>()
+let nextObjectId = 0
+
+const getObjectId = (value: object) => {
+  let id = objectIds.get(value)
+  if (id === undefined) {
+    id = nextObjectId++
+    objectIds.set(value, id)
+  }
+
+  return id
+}
+
+const getStaticValueKey = (value: unknown) => {
+  return value !== null && (typeof value === 'object' || typeof value === 'function')
+    ? `#${getObjectId(value)}`
+    : String(value)
+}
+
+/**
+ * Returns a key that only changes when the pipeline has to be rebuilt: effects added, removed, reordered or toggled,
+ * args added or removed, an arg changing kind, or a non-uniform or build arg (see `setBuildArgs`) changing.
+ */
+export const getPipelineSignature = (effects: PostProcessingEffect[], wrap: PostProcessingWrap = 'none') => {
+  const steps = effects
+    .filter(({ enabled = true }) => enabled)
+    .map(({ effect, args = {} }) => {
+      const argKeys = Object.keys(args)
+        .sort()
+        .map((key) => {
+          const value = args[key]
+          const kind = !isBuildArg(effect, key) && getUniformKind(value)
+          if (kind) {
+            return `${key}:${kind}`
+          }
+
+          return `${key}=${getStaticValueKey(value)}`
+        })
+
+      return `${getObjectId(effect)}(${argKeys.join(',')})`
+    })
+
+  return `${wrap}|${steps.join('>')}`
+}
+
+const applyWrap = (texture: THREE.Texture, wrap: PostProcessingWrap) => {
+  switch (wrap) {
+    case 'none':
+      break
+    case 'repeat':
+      texture.wrapS = THREE.RepeatWrapping
+      texture.wrapT = THREE.RepeatWrapping
+      break
+    case 'mirror':
+      texture.wrapS = THREE.MirroredRepeatWrapping
+      texture.wrapT = THREE.MirroredRepeatWrapping
+      break
+  }
+}
+
+/**
+ * Disposes every multi-pass node (bloom, blurs, ...) reachable from `root`, releasing their render targets.
+ * Shared nodes are visited once.
+ */
+const disposeTempNodes = (root: THREE.Node) => {
+  const visited = new Set<THREE.Node>()
+  const visit = (node: THREE.Node) => {
+    if (visited.has(node)) {
+      return
+    }
+
+    visited.add(node)
+    for (const child of node.getChildren()) {
+      visit(child)
+    }
+
+    if ((node as THREE.TempNode).isTempNode) {
+      node.dispose()
+    }
+  }
+
+  visit(root)
+}
+
+/**
+ * Builds a post-processing chain: scene pass -> effect 1 -> effect 2 -> ... Every effect after the first samples
+ * the previous one through an intermediate render target. Effects also receive the scene's `emissive` MRT texture.
+ */
+export const createPostProcessingPipeline = (
+  renderer: THREE.WebGPURenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  effects: PostProcessingEffect[],
+  wrap: PostProcessingWrap = 'none',
+): PostProcessingPipeline => {
+  const scenePass = pass(scene, camera)
+
+  scenePass.setMRT(mrt({ output, emissive }))
+
+  // Get texture nodes
+  const outputPass = scenePass.getTextureNode('output')
+  const emissivePass = scenePass.getTextureNode('emissive')
+  applyWrap(outputPass.value, wrap)
+
+  const enabled = effects.filter(({ enabled = true }) => enabled)
+  const uniforms: Array<Record<string, UniformNode<any>>> = []
+  const renderTargets: THREE.RenderTarget[] = []
+  const passes: PostProcessingPass[] = []
+
+  let input = outputPass
+  let outputNode = outputPass
+
+  enabled.forEach(({ effect, args = {}, name }, index) => {
+    if (index > 0) {
+      input = convertToTexture(outputNode)
+      if (input.isRTTNode) {
+        applyWrap(input.value, wrap)
+        renderTargets.push(input.renderTarget)
+      }
+    }
+
+    const stepUniforms: Record<string, UniformNode<any>> = {}
+    const stepArgs: Record<string, any> = {}
+
+    for (const key in args) {
+      const kind = !isBuildArg(effect, key) && getUniformKind(args[key])
+      if (kind) {
+        stepUniforms[key] = createArgUniform(kind, args[key])
+        stepArgs[key] = stepUniforms[key]
+      } else {
+        stepArgs[key] = args[key]
+      }
+    }
+
+    uniforms.push(stepUniforms)
+    outputNode = effect({ input, emissive: emissivePass, ...stepArgs })
+    passes.push({ name: name ?? `Effect ${index + 1}`, node: outputNode })
+  })
+
+  // Setup post-processing
+  const postProcessing = new THREE.PostProcessing(renderer)
+  postProcessing.outputNode = outputNode
+
+  return {
+    postProcessing,
+    passes,
+    update: (nextEffects) => {
+      nextEffects
+        .filter(({ enabled = true }) => enabled)
+        .forEach(({ args = {} }, index) => {
+          const stepUniforms = uniforms[index]
+          if (!stepUniforms) {
+            return
+          }
+
+          for (const key in stepUniforms) {
+            if (args[key] !== undefined) {
+              setArgUniform(stepUniforms[key], args[key])
+            }
+          }
+        })
+    },
+    dispose: () => {
+      postProcessing.dispose()
+      scenePass.dispose()
+      renderTargets.forEach((renderTarget) => renderTarget.dispose())
+      disposeTempNodes(outputNode)
+    },
+  }
+}
@@ -1,60 +1,75 @@
 import { useFrame, useThree } from '@react-three/fiber'
-import { useEffect, useRef } from 'react'
-import { mrt, pass, emissive, output, Fn } from 'three/tsl'
-import * as THREE from 'three/webgpu'
+import { useEffect, useLayoutEffect, useRef } from 'react'
+import {
+  createPostProcessingPipeline,
+  getPipelineSignature,
+  type PostProcessingEffect,
+  type PostProcessingPass,
+  type PostProcessingPipeline,
+  type PostProcessingWrap,
+} from './pipeline'
+
+export type { PostProcessingEffect, PostProcessingPass, PostProcessingWrap } from './pipeline'
 
 export type PostProcessingProps = {
-  effect: Fn
-  wrap?: 'none' | 'repeat' | 'mirror'
-  args?: Record<string, any>
+  effects: PostProcessingEffect[]
+  wrap?: PostProcessingWrap
+  /** Called with the enabled passes whenever the pipeline is (re)built, and with `[]` once it is disposed */
+  onPasses?: (passes: PostProcessingPass[]) => void
 }
 
-export const PostProcessing = ({ effect, wrap = 'none', args = {} }: PostProcessingProps) => {
+/**
+ * Renders the scene through an ordered chain of post-processing effects.
+ *
+ * Changing numeric or vector args only updates uniforms. Adding, removing, reordering or toggling effects
+ * (or changing `wrap`) rebuilds the pipeline and disposes the previous one.
+ *
+ * @example
+ * ```tsx
+ * <PostProcessing
+ *   effects={[
+ *     { effect: chromaticAberrationEffect, args: { strength: 0.01 } },
+ *     { effect: crtScanlineEffect, args: { lineIntensity: 0.2 }, enabled: showScanlines },
+ *     { effect: vignetteEffect },
+ *   ]}
+ * />
+ * ```
+ */
+export const PostProcessing = ({ effects, wrap = 'none', onPasses }: PostProcessingProps) => {
   const { gl: renderer, scene, camera } = useThree()
-  const postProcessingRef = useRef<any>(null)
+  const pipelineRef = useRef<PostProcessingPipeline | null>(null)
+  // Read through a ref so a new callback doesn't rebuild the pipeline
+  const onPassesRef = useRef(onPasses)
+  useLayoutEffect(() => {
+    onPassesRef.current = onPasses
+  })
+
+  const signature = getPipelineSignature(effects, wrap)
 
   useEffect(() => {
     if (!renderer || !scene || !camera) {
       return
     }
 
-    const scenePass = pass(scene, camera)
-
-    scenePass.setMRT(mrt({ output, emissive }))
-
-    // Get texture nodes
-    const outputPass = scenePass.getTextureNode('output')
-
-    // Handle texture wrapping
-    switch (wrap) {
-      case 'none':
-        break
-      case 'repeat':
-        outputPass.value.wrapS = THREE.RepeatWrapping
-        outputPass.value.wrapT = THREE.RepeatWrapping
-        break
-      case 'mirror':
-        outputPass.value.wrapS = THREE.MirroredRepeatWrapping
-        outputPass.value.wrapT = THREE.MirroredRepeatWrapping
-        break
-    }
-
-    // Setup post-processing
-    const postProcessing = new THREE.PostProcessing(renderer as any)
-
-    const outputNode = effect({ input: outputPass, ...args })
-    postProcessing.outputNode = outputNode
-
-    postProcessingRef.current = postProcessing
+    const pipeline = createPostProcessingPipeline(renderer as any, scene, camera, effects, wrap)
+    pipelineRef.current = pipeline
+    onPassesRef.current?.(pipeline.passes)
 
     return () => {
-      postProcessingRef.current = null
+      pipelineRef.current = null
+      onPassesRef.current?.([])
+      pipeline.dispose()
     }
-  }, [renderer, scene, camera])
+  }, [renderer, scene, camera, signature])
+
+  // Args that map to uniforms are pushed on every render; this never rebuilds the pipeline
+  useEffect(() => {
+    pipelineRef.current?.update(effects)
+  })
 
   useFrame(() => {
-    if (postProcessingRef.current) {
-      postProcessingRef.current.render()
+    if (pipelineRef.current) {
+      pipelineRef.current.postProcessing.render()
     }
   }, 1)
 
@@ -0,0 +1,8 @@
+import { uniform } from 'three/tsl'
+import type { UniformNode } from 'three/webgpu'
+
+/**
+ * Elapsed sketch time in seconds, driven by the clock store rather than wall time.
+ * Use this instead of the built-in `time` node so sketches respect pausing.
+ */
+export const clockTime = uniform(0) as UniformNode<number>
@@ -0,0 +1,15 @@
+import { Fn, mix, vec3 } from 'three/tsl'
+
+/**
+ * Blends linearly from one color to the other.
+ * @param {Object} props
+ * @param {vec3} props.from - Outgoing color
+ * @param {vec3} props.to - Incoming color
+ * @param {float} props.progress - From 0 (only `from`) to 1 (only `to`)
+ * @returns {vec3} The blended color
+ */
+export const crossfadeTransition = Fn((props) => {
+  const { from, to, progress } = props
+
+  return mix(vec3(from), vec3(to), progress)
+})
@@ -0,0 +1,27 @@
+import { float, Fn, mix, smoothstep, uv, vec2, vec3, screenSize } from 'three/tsl'
+import { simplexNoise3d } from '@/tsl/noise/simplex_noise_3d'
+
+/**
+ * Replaces one color with the other in noisy patches, darkest noise first.
+ * @param {Object} props
+ * @param {vec3} props.from - Outgoing color
+ * @param {vec3} props.to - Incoming color
+ * @param {float} props.progress - From 0 (only `from`) to 1 (only `to`)
+ * @param {float} [props.scale=4] - Noise frequency across the height of the screen
+ * @param {float} [props.softness=0.1] - Width of the edge between the two colors
+ * @param {float} [props.seed=0] - Picks a different noise slice
+ * @returns {vec3} The blended color
+ */
+export const dissolveTransition = Fn((props) => {
+  const { from, to, progress, scale = float(4), softness = float(0.1), seed = float(0) } = props
+
+  const aspect = screenSize.x.div(screenSize.y)
+  const position = uv().mul(vec2(aspect, 1)).mul(scale)
+  const noise = simplexNoise3d(vec3(position, seed)).mul(0.5).add(0.5)
+
+  // Grows the threshold past both ends so the edge fully enters and leaves
+  const threshold = float(progress).mul(float(softness).add(1))
+  const amount = smoothstep(threshold.sub(softness), threshold, noise).oneMinus()
+
+  return mix(vec3(from), vec3(to), amount)
+})
@@ -0,0 +1,32 @@
+import { convertToTexture, float, Fn, mix, screenSize, smoothstep, uv, vec2, vec3 } from 'three/tsl'
+import { pixellationPattern } from '@/tsl/patterns/pixellation_pattern'
+
+/**
+ * Coarsens the outgoing color into large pixels, swaps to the incoming color at the coarsest point and sharpens it
+ * back. Both colors are rendered to textures first, so they can be sampled at the pixel centers.
+ * @param {Object} props
+ * @param {vec3} props.from - Outgoing color
+ * @param {vec3} props.to - Incoming color
+ * @param {float} props.progress - From 0 (only `from`) to 1 (only `to`)
+ * @param {float} [props.size=96] - Pixel size halfway through, in screen pixels
+ * @returns {vec3} The blended color
+ */
+export const pixellateTransition = Fn((props) => {
+  const { from, to, progress, size = float(96) } = props
+
+  const _progress = float(progress)
+
+  // 1 (sharp) at both ends, `size` halfway through
+  const peak = _progress.mul(2).sub(1).abs().oneMinus()
+  const pixelSize = mix(float(1), size, peak)
+
+  // `pixellationPattern` expects aspect corrected coordinates
+  const aspect = screenSize.x.div(screenSize.y)
+  const pixellated = pixellationPattern(uv().mul(vec2(aspect, 1)), pixelSize)
+  const center = pixellated.add(pixelSize.div(screenSize.x).mul(0.5)).div(vec2(aspect, 1))
+
+  const fromColor = convertToTexture(vec3(from)).sample(center).rgb
+  const toColor = convertToTexture(vec3(to)).sample(center).rgb
+
+  return mix(fromColor, toColor, smoothstep(0.45, 0.55, _progress))
+})
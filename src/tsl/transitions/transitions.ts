@@ -0,0 +1,22 @@
+import { crossfadeTransition } from './crossfade_transition'
+import { dissolveTransition } from './dissolve_transition'
+import { pixellateTransition } from './pixellate_transition'
+import { wipeTransition } from './wipe_transition'
+
+/**
+ * Every transition takes `{ from, to, progress }` plus its own optional settings and returns a color.
+ */
+export const transitions = {
+  crossfade: crossfadeTransition,
+  dissolve: dissolveTransition,
+  wipe: wipeTransition,
+  pixellate: pixellateTransition,
+}
+
+export type TransitionName = keyof typeof transitions
+
+export const TRANSITION_NAMES = Object.keys(transitions) as TransitionName[]
+
+export const isTransitionName = (value: unknown): value is TransitionName => {
+  return typeof value === 'string' && value in transitions
+}
@@ -0,0 +1,26 @@
+import { abs, dot, float, Fn, mix, normalize, smoothstep, uv, vec2, vec3 } from 'three/tsl'
+
+/**
+ * Slides a straight edge across the screen, revealing one color behind the other.
+ * @param {Object} props
+ * @param {vec3} props.from - Outgoing color
+ * @param {vec3} props.to - Incoming color
+ * @param {float} props.progress - From 0 (only `from`) to 1 (only `to`)
+ * @param {vec2} [props.direction=vec2(1, 0)] - Direction the edge travels in, e.g. `vec2(0, -1)` for top to bottom
+ * @param {float} [props.softness=0.05] - Width of the edge, as a fraction of the distance it travels
+ * @returns {vec3} The blended color
+ */
+export const wipeTransition = Fn((props) => {
+  const { from, to, progress, direction = vec2(1, 0), softness = float(0.05) } = props
+
+  const _direction = normalize(vec2(direction))
+
+  // Distance along the direction, 0 at the corner the edge starts from and 1 at the opposite one
+  const extent = abs(_direction.x).add(abs(_direction.y))
+  const distance = dot(uv().sub(0.5), _direction).div(extent).add(0.5)
+
+  const threshold = float(progress).mul(float(softness).add(1))
+  const amount = smoothstep(threshold.sub(softness), threshold, distance).oneMinus()
+
+  return mix(vec3(from), vec3(to), amount)
+})
@@ -0,0 +1,29 @@
+import { abs, clamp, float, Fn, luminance, max, mix, screenUV, step, vec3 } from 'three/tsl'
+
+/**
+ * Combines two color nodes into one image for comparison: `a` left of a vertical line and `b` right of it, or the
+ * per-pixel difference between them.
+ * In difference mode unchanged pixels are shown as a dimmed grey version of `a`, changed pixels in magenta, brighter
+ * the larger the change.
+ * @param {Object} props
+ * @param {vec3} props.a - Color shown on the left
+ * @param {vec3} props.b - Color shown on the right
+ * @param {float} props.position - Horizontal position of the line in screen space, from 0 (left) to 1 (right)
+ * @param {float} props.difference - 1 to show the difference, 0 to show the split
+ * @param {float} [props.gain=4] - Amplifies the difference, so small changes stand out
+ * @returns {vec3} The combined color
+ */
+export const compareNodes = Fn((props) => {
+  const { a, b, position, difference, gain = float(4) } = props
+
+  const colorA = vec3(a).toVar()
+  const colorB = vec3(b).toVar()
+
+  const split = mix(colorA, colorB, step(position, screenUV.x))
+
+  const delta = abs(colorA.sub(colorB))
+  const change = clamp(max(delta.r, max(delta.g, delta.b)).mul(gain), 0, 1)
+  const highlighted = mix(vec3(luminance(colorA)).mul(0.25), vec3(1, 0.1, 0.6), change)
+
+  return mix(split, highlighted, difference)
+})
@@ -0,0 +1,28 @@
+import { float, Fn, max, min, select, vec2 } from 'three/tsl'
+
+/**
+ * Maps a point in `screenAspectUV` coordinates (centered, the canvas' short side from -0.5 to 0.5) to the uv of a
+ * texture fitted into the canvas.
+ * @param {vec2} p - The point, e.g. `screenAspectUV(screenSize)`.
+ * @param {vec2} canvasSize - The canvas size, e.g. `screenSize`.
+ * @param {vec2} textureSize - The texture size in pixels.
+ * @param {float} fit - `0` stretches the texture over the canvas, `1` covers the canvas, `2` fits inside it.
+ * @returns {vec2} The texture uv, outside 0 to 1 where the texture doesn't reach.
+ */
+export const fitUV = Fn(([p, canvasSize, textureSize, fit]) => {
+  const canvasAspect = canvasSize.x.div(canvasSize.y)
+  const textureAspect = textureSize.x.div(textureSize.y)
+
+  // Size of the canvas in the coordinates of `p`
+  const canvasExtent = select(canvasAspect.greaterThan(1), vec2(canvasAspect, 1), vec2(1, float(1).div(canvasAspect)))
+
+  // Height of the fitted texture; its width follows from its aspect ratio
+  const cover = max(canvasExtent.x.div(textureAspect), canvasExtent.y)
+  const contain = min(canvasExtent.x.div(textureAspect), canvasExtent.y)
+  const height = select(fit.equal(1), cover, contain)
+
+  const stretched = p.div(canvasExtent)
+  const fitted = p.div(vec2(textureAspect, 1).mul(height))
+
+  return select(fit.equal(0), stretched, fitted).add(0.5)
+})
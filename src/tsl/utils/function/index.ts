@@ -1,4 +1,5 @@
 export * from './bloom'
 export * from './bloom_edge_pattern'
+export * from './fit_uv'
 export * from './repeating_pattern'
 export * from './screen_aspect_uv'
@@ -0,0 +1,8 @@
+import { uniform } from 'three/tsl'
+import type { UniformNode } from 'three/webgpu'
+
+/**
+ * A per-sketch random seed, set from the sketch store (and the `seed` search param).
+ * Offset noise or hash inputs with it to get reproducible variations.
+ */
+export const sketchSeed = uniform(0) as UniformNode<number>
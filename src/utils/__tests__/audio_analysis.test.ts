@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'vitest'
+import { analyzeAudioBuffer, type AudioSamples } from '@/utils/audio_analysis'
+
+const SAMPLE_RATE = 44100
+
+/**
+ * A mono buffer of `duration` seconds whose samples are `sample(time)`, shaped like a decoded `AudioBuffer`.
+ */
+const createBuffer = (duration: number, sample: (time: number) => number = () => 0): AudioSamples => {
+  const data = new Float32Array(Math.round(duration * SAMPLE_RATE))
+  for (let i = 0; i < data.length; i++) {
+    data[i] = sample(i / SAMPLE_RATE)
+  }
+
+  return { sampleRate: SAMPLE_RATE, length: data.length, numberOfChannels: 1, getChannelData: () => data }
+}
+
+const sine = (frequency: number, amplitude = 1) => {
+  return (time: number) => amplitude * Math.sin(2 * Math.PI * frequency * time)
+}
+
+// A 60 Hz kick every half second (120 bpm), fading out over 0.15 seconds
+const kicks = (time: number) => {
+  const since = time % 0.5
+  return since < 0.15 ? Math.sin(2 * Math.PI * 60 * since) * (1 - since / 0.15) : 0
+}
+
+const getOnsets = (buffer: AudioSamples) => {
+  return analyzeAudioBuffer(buffer)
+    .filter(({ onset }) => onset)
+    .map(({ time }) => time)
+}
+
+describe('analyzeAudioBuffer', () => {
+  test('leaves every feature at 0 for silence', () => {
+    const frames = analyzeAudioBuffer(createBuffer(2))
+
+    expect(frames).toHaveLength(120)
+    for (const { bass, mid, treble, level, beat, onset } of frames) {
+      expect({ bass, mid, treble, level, beat, onset }).toEqual({
+        bass: 0,
+        mid: 0,
+        treble: 0,
+        level: 0,
+        beat: 0,
+        onset: false,
+      })
+    }
+  })
+
+  test('puts a tone in its band', () => {
+    const frames = analyzeAudioBuffer(createBuffer(1, sine(1000, 0.5)))
+    const { bass, mid, treble, level } = frames[frames.length - 1]
+
+    expect(mid).toBeGreaterThan(bass)
+    expect(mid).toBeGreaterThan(treble)
+    // RMS of a sine is its amplitude over √2
+    expect(level).toBeCloseTo(0.5 / Math.SQRT2, 2)
+  })
+
+  test('finds no beats in a steady bass tone', () => {
+    expect(getOnsets(createBuffer(3, sine(80)))).toEqual([])
+  })
+
+  test('finds kicks once the average has settled', () => {
+    const onsets = getOnsets(createBuffer(4, kicks))
+
+    // Kicks before the first second only feed the average
+    expect(onsets).toHaveLength(6)
+    onsets.forEach((time, index) => {
+      expect(time).toBeCloseTo(1 + index * 0.5, 1)
+    })
+  })
+
+  test('spaces beats by the cooldown', () => {
+    // Eight kicks a second, faster than the default cooldown allows
+    const onsets = getOnsets(createBuffer(4, (time) => kicks(time * 4)))
+
+    expect(onsets.length).toBeGreaterThan(0)
+    for (let i = 1; i < onsets.length; i++) {
+      // Frame times add up a rounding error
+      expect(onsets[i] - onsets[i - 1]).toBeGreaterThanOrEqual(0.25 - 1e-9)
+    }
+  })
+})
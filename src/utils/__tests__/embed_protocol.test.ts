@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'vitest'
+import { isEmbedCommand } from '@/utils/embed_protocol'
+
+describe('isEmbedCommand', () => {
+  test('accepts every command', () => {
+    expect(isEmbedCommand({ type: 'fragments:setParams', params: { speed: 2 } })).toBe(true)
+    expect(isEmbedCommand({ type: 'fragments:play' })).toBe(true)
+    expect(isEmbedCommand({ type: 'fragments:pause' })).toBe(true)
+    expect(isEmbedCommand({ type: 'fragments:capture' })).toBe(true)
+    expect(isEmbedCommand({ type: 'fragments:capture', id: 'cover', mimeType: 'image/png' })).toBe(true)
+  })
+
+  test('rejects anything that is not a command', () => {
+    for (const data of [null, undefined, 'fragments:play', 1, [], {}, { type: 'play' }, { type: 'fragments:ready' }]) {
+      expect(isEmbedCommand(data)).toBe(false)
+    }
+  })
+
+  test('requires setParams to carry an object', () => {
+    expect(isEmbedCommand({ type: 'fragments:setParams' })).toBe(false)
+    expect(isEmbedCommand({ type: 'fragments:setParams', params: null })).toBe(false)
+    expect(isEmbedCommand({ type: 'fragments:setParams', params: [2] })).toBe(false)
+    expect(isEmbedCommand({ type: 'fragments:setParams', params: 'speed=2' })).toBe(false)
+  })
+
+  test('only accepts the declared capture formats', () => {
+    for (const mimeType of ['image/png', 'image/jpeg', 'image/webp']) {
+      expect(isEmbedCommand({ type: 'fragments:capture', mimeType })).toBe(true)
+    }
+
+    for (const mimeType of ['image/gif', 'image/svg+xml', 'IMAGE/PNG', '', 0, null]) {
+      expect(isEmbedCommand({ type: 'fragments:capture', mimeType })).toBe(false)
+    }
+  })
+
+  test('requires capture ids to be strings', () => {
+    expect(isEmbedCommand({ type: 'fragments:capture', id: 1 })).toBe(false)
+    expect(isEmbedCommand({ type: 'fragments:capture', id: { name: 'cover' } })).toBe(false)
+  })
+})
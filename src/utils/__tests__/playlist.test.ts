@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'vitest'
+import { TRANSITION_NAMES } from '@/tsl/transitions/transitions'
+import {
+  DEFAULT_ITEM_DURATION,
+  formatPlaylistItems,
+  getPlaylistPosition,
+  getTransitionDuration,
+  parsePlaylistItems,
+  parseTransitions,
+} from '@/utils/playlist'
+
+describe('parsePlaylistItems', () => {
+  test('reads paths and durations', () => {
+    expect(parsePlaylistItems('flare-1:10, nested/dawn-1:2.5')).toEqual([
+      { path: 'flare-1', duration: 10 },
+      { path: 'nested/dawn-1', duration: 2.5 },
+    ])
+  })
+
+  test('falls back to the default duration when it is missing or invalid', () => {
+    expect(parsePlaylistItems('a,b:,c:0,d:-3,e:soon,f:Infinity').map(({ duration }) => duration)).toEqual(
+      new Array(6).fill(DEFAULT_ITEM_DURATION),
+    )
+  })
+
+  test('drops entries without a path', () => {
+    expect(parsePlaylistItems(',:5, ,flare-1')).toEqual([{ path: 'flare-1', duration: DEFAULT_ITEM_DURATION }])
+    expect(parsePlaylistItems('')).toEqual([])
+    expect(parsePlaylistItems()).toEqual([])
+  })
+
+  test('reads what formatPlaylistItems writes', () => {
+    const items = [
+      { path: 'flare-1', duration: 4 },
+      { path: 'effects/glow-1', duration: 0.5 },
+    ]
+
+    expect(parsePlaylistItems(formatPlaylistItems(items))).toEqual(items)
+  })
+})
+
+describe('parseTransitions', () => {
+  test('keeps known names in order and drops the rest', () => {
+    const [first, second] = TRANSITION_NAMES
+
+    expect(parseTransitions(`${second}, nope,${first}`)).toEqual([second, first])
+  })
+
+  test('takes turns with every transition without a known name', () => {
+    expect(parseTransitions()).toEqual(TRANSITION_NAMES)
+    expect(parseTransitions('nope')).toEqual(TRANSITION_NAMES)
+  })
+})
+
+describe('getTransitionDuration', () => {
+  test('uses the requested duration when the item is long enough', () => {
+    expect(getTransitionDuration(10, 2)).toBe(2)
+  })
+
+  test('never takes more than half of the item', () => {
+    expect(getTransitionDuration(3, 2)).toBe(1.5)
+  })
+
+  test('never goes below 0', () => {
+    expect(getTransitionDuration(10, -1)).toBe(0)
+  })
+})
+
+describe('getPlaylistPosition', () => {
+  const durations = [10, 5, 8]
+
+  test('shows each item on its own until its transition starts', () => {
+    expect(getPlaylistPosition(durations, 2, 0)).toEqual({ index: 0, next: 1, progress: 0 })
+    expect(getPlaylistPosition(durations, 2, 8)).toEqual({ index: 0, next: 1, progress: 0 })
+    expect(getPlaylistPosition(durations, 2, 10)).toEqual({ index: 1, next: 2, progress: 0 })
+  })
+
+  test('overlaps the transition with the end of the item it leaves', () => {
+    expect(getPlaylistPosition(durations, 2, 9)).toEqual({ index: 0, next: 1, progress: 0.5 })
+    expect(getPlaylistPosition(durations, 2, 14.5)).toEqual({ index: 1, next: 2, progress: 0.75 })
+  })
+
+  test('shortens transitions longer than half of the item', () => {
+    // The 5 second item transitions for 2.5 seconds instead of 4
+    expect(getPlaylistPosition(durations, 4, 12.5)).toEqual({ index: 1, next: 2, progress: 0 })
+    expect(getPlaylistPosition(durations, 4, 13.75)).toEqual({ index: 1, next: 2, progress: 0.5 })
+  })
+
+  test('wraps around from the last item to the first', () => {
+    expect(getPlaylistPosition(durations, 2, 22)).toEqual({ index: 2, next: 0, progress: 0.5 })
+    expect(getPlaylistPosition(durations, 2, 23)).toEqual({ index: 0, next: 1, progress: 0 })
+    expect(getPlaylistPosition(durations, 2, 23 * 3 + 9)).toEqual({ index: 0, next: 1, progress: 0.5 })
+  })
+
+  test('counts negative times back from the end', () => {
+    expect(getPlaylistPosition(durations, 2, -1)).toEqual({ index: 2, next: 0, progress: 0.5 })
+    expect(getPlaylistPosition(durations, 2, -23 - 14)).toEqual({ index: 0, next: 1, progress: 0.5 })
+  })
+
+  test('never transitions with a single item', () => {
+    for (const time of [0, 9.99, 25, -1]) {
+      expect(getPlaylistPosition([10], 2, time)).toEqual({ index: 0, next: 0, progress: 0 })
+    }
+  })
+
+  test('stays on the first item without any duration', () => {
+    expect(getPlaylistPosition([], 2, 5)).toEqual({ index: 0, next: 0, progress: 0 })
+    expect(getPlaylistPosition([0, 0], 2, 5)).toEqual({ index: 0, next: 0, progress: 0 })
+  })
+})
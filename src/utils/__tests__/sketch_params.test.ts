@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'vitest'
+import {
+  getDefaultParamValues,
+  sanitizeParamValue,
+  sanitizeParamValues,
+  type SketchParams,
+} from '@/utils/sketch_params'
+
+const params = {
+  speed: { type: 'number', value: 1, min: 0, max: 4 },
+  color: { type: 'color', value: '#ff8800' },
+  offset: { type: 'vec2', value: [0, 0], min: -1, max: 1 },
+  position: { type: 'vec3', value: [0, 0, 0] },
+  invert: { type: 'boolean', value: false },
+  palette: { type: 'select', value: 'warm', options: ['warm', 'cold'] },
+  levels: { type: 'select', value: 4, options: { Few: 2, Some: 4, Many: 8 } },
+} satisfies SketchParams
+
+describe('sanitizeParamValue', () => {
+  test('keeps values that fit their parameter', () => {
+    expect(sanitizeParamValue(params.speed, 2.5)).toBe(2.5)
+    expect(sanitizeParamValue(params.color, '#abc')).toBe('#abc')
+    expect(sanitizeParamValue(params.color, '#A0B1C2')).toBe('#A0B1C2')
+    expect(sanitizeParamValue(params.offset, [0.5, -0.5])).toEqual([0.5, -0.5])
+    expect(sanitizeParamValue(params.position, [10, -20, 30])).toEqual([10, -20, 30])
+    expect(sanitizeParamValue(params.invert, true)).toBe(true)
+    expect(sanitizeParamValue(params.palette, 'cold')).toBe('cold')
+    expect(sanitizeParamValue(params.levels, 8)).toBe(8)
+  })
+
+  test('clamps numbers to the range of their parameter', () => {
+    expect(sanitizeParamValue(params.speed, -1)).toBe(0)
+    expect(sanitizeParamValue(params.speed, 100)).toBe(4)
+    expect(sanitizeParamValue(params.offset, [-3, 3])).toEqual([-1, 1])
+  })
+
+  test('rejects values of the wrong type', () => {
+    expect(sanitizeParamValue(params.speed, '2')).toBeUndefined()
+    expect(sanitizeParamValue(params.speed, NaN)).toBeUndefined()
+    expect(sanitizeParamValue(params.speed, Infinity)).toBeUndefined()
+    expect(sanitizeParamValue(params.color, 0xff8800)).toBeUndefined()
+    expect(sanitizeParamValue(params.offset, { x: 0, y: 0 })).toBeUndefined()
+    expect(sanitizeParamValue(params.offset, ['0', '0'])).toBeUndefined()
+    expect(sanitizeParamValue(params.invert, 'true')).toBeUndefined()
+    expect(sanitizeParamValue(params.invert, 1)).toBeUndefined()
+    expect(sanitizeParamValue(params.speed, undefined)).toBeUndefined()
+  })
+
+  test('rejects malformed colors', () => {
+    for (const value of ['ff8800', '#ff88', '#gg8800', 'red', '#ff8800ff']) {
+      expect(sanitizeParamValue(params.color, value)).toBeUndefined()
+    }
+  })
+
+  test('rejects vectors of the wrong length or with non-finite components', () => {
+    expect(sanitizeParamValue(params.offset, [0])).toBeUndefined()
+    expect(sanitizeParamValue(params.offset, [0, 0, 0])).toBeUndefined()
+    expect(sanitizeParamValue(params.position, [0, 0])).toBeUndefined()
+    expect(sanitizeParamValue(params.position, [0, NaN, 0])).toBeUndefined()
+  })
+
+  test('only accepts the values of select options', () => {
+    expect(sanitizeParamValue(params.palette, 'neon')).toBeUndefined()
+    expect(sanitizeParamValue(params.palette, 0)).toBeUndefined()
+    // Record options are selected by value, not label
+    expect(sanitizeParamValue(params.levels, 'Many')).toBeUndefined()
+    expect(sanitizeParamValue(params.levels, 3)).toBeUndefined()
+    expect(sanitizeParamValue(params.levels, '8')).toBeUndefined()
+  })
+})
+
+describe('sanitizeParamValues', () => {
+  test('keeps only known keys whose values fit', () => {
+    expect(sanitizeParamValues(params, { speed: 9, color: 'red', invert: true, unknown: 1, constructor: 'x' })).toEqual(
+      { speed: 4, invert: true },
+    )
+  })
+
+  test('returns nothing without a schema or values', () => {
+    expect(sanitizeParamValues(undefined, { speed: 2 })).toEqual({})
+    expect(sanitizeParamValues(params)).toEqual({})
+    expect(sanitizeParamValues(params, {})).toEqual({})
+  })
+
+  test('accepts every default value', () => {
+    const defaults = getDefaultParamValues(params)
+
+    expect(sanitizeParamValues(params, defaults)).toEqual(defaults)
+  })
+
+  test('accepts values that went through a url', () => {
+    const values = { speed: 3, offset: [0.25, -1], palette: 'cold', levels: 2 }
+
+    expect(sanitizeParamValues(params, JSON.parse(JSON.stringify(values)))).toEqual(values)
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest'
+import { buildSketchSearch, validateSketchSearch } from '@/utils/sketch_search'
+
+describe('validateSketchSearch', () => {
+  test('keeps well-formed values', () => {
+    expect(validateSketchSearch({ params: { speed: 2 }, seed: 7, t: 1.5 })).toEqual({
+      params: { speed: 2 },
+      seed: 7,
+      t: 1.5,
+    })
+  })
+
+  test('reads numbers the router leaves as strings', () => {
+    expect(validateSketchSearch({ seed: '-3', t: '2.25' })).toEqual({ seed: -3, t: 2.25 })
+  })
+
+  test('drops values of the wrong type', () => {
+    expect(validateSketchSearch({ params: [1, 2], seed: 'seven', t: { at: 1 } })).toEqual({})
+    expect(validateSketchSearch({ params: 'speed:2', seed: null, t: true })).toEqual({})
+  })
+
+  test('drops numbers out of range', () => {
+    expect(validateSketchSearch({ seed: Infinity, t: -1 })).toEqual({})
+    expect(validateSketchSearch({ seed: 'NaN', t: '-0.5' })).toEqual({})
+  })
+
+  test('drops unknown keys', () => {
+    expect(validateSketchSearch({ seed: 1, transparent: true, mode: 'wipe', foo: 'bar' })).toEqual({ seed: 1 })
+  })
+
+  test('reads the backend and the debug flag', () => {
+    expect(validateSketchSearch({ backend: 'webgl', debug: true })).toEqual({ backend: 'webgl', debug: true })
+    expect(validateSketchSearch({ backend: 'webgpu', debug: 'true' })).toEqual({ backend: 'webgpu', debug: true })
+    // `auto` is what happens without the param
+    expect(validateSketchSearch({ backend: 'auto', debug: 'yes' })).toEqual({})
+    expect(validateSketchSearch({ backend: 'metal', debug: 1 })).toEqual({})
+  })
+
+  test('only shape-checks parameter values', () => {
+    expect(validateSketchSearch({ params: { speed: 'fast', unknown: [1] } })).toEqual({
+      params: { speed: 'fast', unknown: [1] },
+    })
+  })
+})
+
+describe('buildSketchSearch', () => {
+  const defaults = { speed: 1, color: '#ff8800', offset: [0, 0] }
+
+  test('leaves out everything that is at its default', () => {
+    expect(buildSketchSearch(defaults, { ...defaults, offset: [0, 0] }, 0)).toEqual({})
+  })
+
+  test('only includes changed parameter values', () => {
+    expect(buildSketchSearch(defaults, { ...defaults, speed: 2, offset: [0, 1] }, 0)).toEqual({
+      params: { speed: 2, offset: [0, 1] },
+    })
+  })
+
+  test('includes the seed and rounds the time to milliseconds', () => {
+    expect(buildSketchSearch(defaults, defaults, -4, 1.23456)).toEqual({ seed: -4, t: 1.235 })
+    expect(buildSketchSearch(defaults, defaults, 0, 0)).toEqual({ t: 0 })
+  })
+
+  test('round-trips through validateSketchSearch', () => {
+    const search = buildSketchSearch(defaults, { ...defaults, color: '#000000', offset: [0.5, -1] }, 12, 3.5)
+
+    expect(validateSketchSearch({ ...search })).toEqual(search)
+  })
+
+  test('round-trips through the strings of a url', () => {
+    const search = buildSketchSearch(defaults, { ...defaults, speed: 0.5 }, 12, 3.5)
+    const raw = Object.fromEntries(
+      Object.entries(search).map(([key, value]) => [key, typeof value === 'object' ? value : String(value)]),
+    )
+
+    expect(validateSketchSearch(raw)).toEqual(search)
+  })
+})
@@ -0,0 +1,12 @@
+import { expect, test } from 'vitest'
+import { sketches } from '@/utils/sketch_registry'
+import { validateSketch } from '@/utils/sketch_validation'
+
+test.each(sketches.map(({ path }) => path))('%s generates WGSL and GLSL', async (path) => {
+  const { errors } = await validateSketch(path)
+  expect(errors).toEqual([])
+})
+
+test('names the source file of a missing sketch', async () => {
+  await expect(validateSketch('missing-1')).rejects.toThrow('There is no sketch at src/sketches/missing-1.ts')
+})
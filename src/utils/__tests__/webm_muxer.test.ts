@@ -0,0 +1,193 @@
+import { describe, expect, test } from 'vitest'
+import { createWebMMuxer } from '@/utils/webm_muxer'
+
+type EbmlElement = {
+  id: number
+  /** Bytes of the size field */
+  sizeLength: number
+  data: Uint8Array
+}
+
+/**
+ * Reads an EBML variable-length integer. IDs keep their length marker, sizes don't.
+ */
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = bytes[offset]
+  let length = 1
+  while (!(first & (0x80 >> (length - 1)))) {
+    length++
+  }
+
+  let value = keepMarker ? first : first & (0xff >> length)
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i]
+  }
+
+  return { value, length }
+}
+
+/**
+ * Splits `bytes` into consecutive elements, failing if the last one overruns them.
+ */
+const readElements = (bytes: Uint8Array) => {
+  const elements: EbmlElement[] = []
+  let offset = 0
+
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true)
+    offset += id.length
+    const size = readVint(bytes, offset, false)
+    offset += size.length
+
+    expect(offset + size.value).toBeLessThanOrEqual(bytes.length)
+    elements.push({ id: id.value, sizeLength: size.length, data: bytes.subarray(offset, offset + size.value) })
+    offset += size.value
+  }
+
+  return elements
+}
+
+const getChild = (elements: EbmlElement[], id: number) => {
+  const child = elements.find((element) => element.id === id)
+  expect(child).toBeDefined()
+
+  return child!
+}
+
+const readUint = (data: Uint8Array) => data.reduce((value, byte) => value * 256 + byte, 0)
+
+/** A stand-in for the `EncodedVideoChunk`s a `VideoEncoder` outputs. `timestamp` is in microseconds */
+const createChunk = (timestamp: number, type: 'key' | 'delta', data = new Uint8Array([1, 2, 3])) => {
+  return {
+    type,
+    timestamp,
+    byteLength: data.length,
+    copyTo: (target: Uint8Array) => target.set(data),
+  } as unknown as EncodedVideoChunk
+}
+
+const mux = async (chunks: EncodedVideoChunk[], duration = 1) => {
+  const muxer = createWebMMuxer({ width: 640, height: 360, codec: 'V_VP9' })
+  chunks.forEach((chunk) => muxer.addChunk(chunk))
+
+  const blob = muxer.finalize(duration)
+  expect(blob.type).toBe('video/webm')
+
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+/** Timecode of every cluster, with the relative timecode and key frame flag of each of its blocks */
+const readClusters = (segment: EbmlElement[]) => {
+  return segment
+    .filter(({ id }) => id === 0x1f43b675)
+    .map(({ data }) => {
+      const children = readElements(data)
+      const blocks = children
+        .filter(({ id }) => id === 0xa3)
+        .map(({ data }) => {
+          // Track number 1 as a vint, then an int16 timecode and the flags
+          expect(data[0]).toBe(0x81)
+          return { timecode: new DataView(data.buffer, data.byteOffset).getInt16(1), key: data[3] === 0x80 }
+        })
+
+      return { timecode: readUint(getChild(children, 0xe7).data), blocks }
+    })
+}
+
+describe('createWebMMuxer', () => {
+  test('starts with the EBML header of a webm file', async () => {
+    const bytes = await mux([createChunk(0, 'key')])
+
+    // prettier-ignore
+    expect(Array.from(bytes.subarray(0, 36))).toEqual([
+      0x1a, 0x45, 0xdf, 0xa3, 0x9f,
+      0x42, 0x86, 0x81, 0x01,
+      0x42, 0xf7, 0x81, 0x01,
+      0x42, 0xf2, 0x81, 0x04,
+      0x42, 0xf3, 0x81, 0x08,
+      0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d,
+      0x42, 0x87, 0x81, 0x04,
+      0x42, 0x85, 0x81, 0x02,
+    ])
+  })
+
+  test('sizes the segment to the end of the file', async () => {
+    const bytes = await mux([createChunk(0, 'key'), createChunk(33333, 'delta')], 2.5)
+    const [header, segment, ...rest] = readElements(bytes)
+
+    expect(header.id).toBe(0x1a45dfa3)
+    expect(segment.id).toBe(0x18538067)
+    expect(rest).toEqual([])
+
+    const children = readElements(segment.data)
+    const info = readElements(getChild(children, 0x1549a966).data)
+    expect(readUint(getChild(info, 0x2ad7b1).data)).toBe(1000000)
+    expect(new DataView(getChild(info, 0x4489).data.slice().buffer).getFloat64(0)).toBe(2500)
+
+    const [track] = readElements(getChild(children, 0x1654ae6b).data)
+    const entry = readElements(track.data)
+    expect(new TextDecoder().decode(getChild(entry, 0x86).data)).toBe('V_VP9')
+
+    const video = readElements(getChild(entry, 0xe0).data)
+    expect(readUint(getChild(video, 0xb0).data)).toBe(640)
+    expect(readUint(getChild(video, 0xba).data)).toBe(360)
+  })
+
+  test('starts a cluster on every key frame, with block timecodes relative to it', async () => {
+    const bytes = await mux([
+      createChunk(0, 'key'),
+      createChunk(33333, 'delta'),
+      createChunk(66667, 'delta'),
+      createChunk(100000, 'key'),
+      createChunk(133333, 'delta'),
+    ])
+    const [, segment] = readElements(bytes)
+
+    expect(readClusters(readElements(segment.data))).toEqual([
+      {
+        timecode: 0,
+        blocks: [
+          { timecode: 0, key: true },
+          { timecode: 33, key: false },
+          { timecode: 67, key: false },
+        ],
+      },
+      {
+        timecode: 100,
+        blocks: [
+          { timecode: 0, key: true },
+          { timecode: 33, key: false },
+        ],
+      },
+    ])
+  })
+
+  test('splits clusters before block timecodes overflow', async () => {
+    // One key frame, then a delta frame every second for 40 seconds
+    const chunks = Array.from({ length: 41 }, (_, i) => createChunk(i * 1000000, i === 0 ? 'key' : 'delta'))
+    const [, segment] = readElements(await mux(chunks, 40))
+    const clusters = readClusters(readElements(segment.data))
+
+    expect(clusters.map(({ timecode }) => timecode)).toEqual([0, 31000])
+    for (const { blocks } of clusters) {
+      expect(Math.max(...blocks.map(({ timecode }) => timecode))).toBeLessThanOrEqual(30000)
+    }
+    expect(clusters.flatMap(({ blocks }) => blocks)).toHaveLength(41)
+  })
+
+  test('writes sizes that would be all ones in one byte with two', async () => {
+    // Block payloads are the 4 byte header plus the data: 126 fits in one byte, 127 would read as "unknown size"
+    for (const [length, sizeLength] of [
+      [122, 1],
+      [123, 2],
+    ]) {
+      const bytes = await mux([createChunk(0, 'key', new Uint8Array(length))])
+      const [, segment] = readElements(bytes)
+      const [cluster] = readElements(segment.data).filter(({ id }) => id === 0x1f43b675)
+      const block = getChild(readElements(cluster.data), 0xa3)
+
+      expect(block.data.length).toBe(length + 4)
+      expect(block.sizeLength).toBe(sizeLength)
+    }
+  })
+})
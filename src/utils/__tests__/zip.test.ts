@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest'
+import { crc32, createZip } from '@/utils/zip'
+
+const encoder = new TextEncoder()
+
+describe('crc32', () => {
+  test('matches the reference check values', () => {
+    expect(crc32(new Uint8Array())).toBe(0)
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926)
+    expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339)
+  })
+})
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'frames/00000.png', data: encoder.encode('first') },
+    { name: 'frames/00001.png', data: encoder.encode('second frame') },
+  ]
+
+  const readZip = async () => {
+    const blob = createZip(entries)
+    expect(blob.type).toBe('application/zip')
+
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    return { bytes, view: new DataView(bytes.buffer) }
+  }
+
+  test('writes a local header followed by the name and data of every entry', async () => {
+    const { bytes, view } = await readZip()
+    let offset = 0
+
+    for (const { name, data } of entries) {
+      expect(view.getUint32(offset, true)).toBe(0x04034b50)
+      expect(view.getUint16(offset + 6, true)).toBe(0x0800)
+      expect(view.getUint16(offset + 8, true)).toBe(0)
+      expect(view.getUint32(offset + 14, true)).toBe(crc32(data))
+      expect(view.getUint32(offset + 18, true)).toBe(data.length)
+      expect(view.getUint32(offset + 22, true)).toBe(data.length)
+      expect(view.getUint16(offset + 26, true)).toBe(name.length)
+
+      const nameStart = offset + 30
+      expect(bytes.subarray(nameStart, nameStart + name.length)).toEqual(encoder.encode(name))
+      expect(bytes.subarray(nameStart + name.length, nameStart + name.length + data.length)).toEqual(data)
+
+      offset = nameStart + name.length + data.length
+    }
+  })
+
+  test('points the central directory at the local headers', async () => {
+    const { bytes, view } = await readZip()
+    const end = bytes.length - 22
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50)
+    expect(view.getUint16(end + 8, true)).toBe(entries.length)
+    expect(view.getUint16(end + 10, true)).toBe(entries.length)
+
+    const centralSize = view.getUint32(end + 12, true)
+    let offset = view.getUint32(end + 16, true)
+    expect(offset + centralSize).toBe(end)
+
+    let localOffset = 0
+    for (const { name, data } of entries) {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50)
+      expect(view.getUint32(offset + 16, true)).toBe(crc32(data))
+      expect(view.getUint32(offset + 20, true)).toBe(data.length)
+      expect(view.getUint16(offset + 28, true)).toBe(name.length)
+      expect(view.getUint32(offset + 42, true)).toBe(localOffset)
+      expect(bytes.subarray(offset + 46, offset + 46 + name.length)).toEqual(encoder.encode(name))
+
+      offset += 46 + name.length
+      localOffset += 30 + name.length + data.length
+    }
+  })
+
+  test('writes only the end record for no entries', async () => {
+    const bytes = new Uint8Array(await createZip([]).arrayBuffer())
+
+    expect(Array.from(bytes)).toEqual([0x50, 0x4b, 0x05, 0x06, ...new Array(18).fill(0)])
+  })
+})
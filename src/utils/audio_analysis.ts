@@ -0,0 +1,292 @@
+/**
+ * Audio analysis behind the audio uniforms (see `@/tsl/audio/audio`). Everything here is a pure function of sample
+ * and spectrum arrays, so it runs the same on an `AnalyserNode`'s output and on a decoded buffer without a sound
+ * device (see `analyzeAudioBuffer`).
+ */
+
+/** Frequency ranges of the bands, in Hz */
+export const AUDIO_BANDS = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 16000],
+} satisfies Record<string, [number, number]>
+
+/** Samples per analysis window; the spectrum has half as many bins */
+export const AUDIO_FFT_SIZE = 2048
+
+/** Decibels mapped to 0 and 255 in byte spectra, the defaults of `AnalyserNode` */
+export const AUDIO_MIN_DECIBELS = -100
+export const AUDIO_MAX_DECIBELS = -30
+
+/** Seconds it takes band energies and the level to rise or fall about two thirds of the way to a new value */
+const ATTACK = 0.02
+const RELEASE = 0.2
+/** Seconds it takes the beat pulse to fall to about a third */
+const BEAT_DECAY = 0.15
+
+/**
+ * What the analysis publishes every frame. All values are smoothed over time.
+ *
+ * - `bass`, `mid`, `treble`: Average loudness of the spectrum bins in each of `AUDIO_BANDS`, 0 to 1
+ * - `level`: RMS of the waveform, 0 to 1 (about 0.7 for a full scale sine)
+ * - `beat`: 1 on an onset, falling back to 0 until the next one
+ * - `onset`: Whether a beat started this frame
+ */
+export type AudioFeatures = {
+  bass: number
+  mid: number
+  treble: number
+  level: number
+  beat: number
+  onset: boolean
+}
+
+export type BeatDetectorOptions = {
+  /** How many mean deviations above its recent average the bass must jump. Defaults to 1.5 */
+  sensitivity?: number
+  /** Bass energy below which nothing counts as a beat. Defaults to 0.3 */
+  floor?: number
+  /** Shortest time between beats in seconds. Defaults to 0.25, 240 bpm */
+  cooldown?: number
+  /** Seconds of history the average follows, and that are analyzed before anything counts as a beat. Defaults to 1 */
+  window?: number
+}
+
+/**
+ * The running state of an analysis, see `createAudioAnalysis`.
+ */
+export type AudioAnalysis = {
+  features: AudioFeatures
+  /** Seconds analyzed so far */
+  time: number
+  /** Recent average of the raw bass energy and its mean deviation */
+  average: number
+  deviation: number
+  lastOnset: number
+  options: Required<BeatDetectorOptions>
+}
+
+export const createAudioAnalysis = (options: BeatDetectorOptions = {}): AudioAnalysis => ({
+  features: { bass: 0, mid: 0, treble: 0, level: 0, beat: 0, onset: false },
+  time: 0,
+  average: 0,
+  deviation: 0,
+  lastOnset: -Infinity,
+  options: { sensitivity: 1.5, floor: 0.3, cooldown: 0.25, window: 1, ...options },
+})
+
+/**
+ * In-place radix-2 FFT of `re` and `im`, whose length must be a power of two.
+ */
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+
+    if (i < j) {
+      const r = re[i]
+      re[i] = re[j]
+      re[j] = r
+      const m = im[i]
+      im[i] = im[j]
+      im[j] = m
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const tre = re[b] * cos - im[b] * sin
+        const tim = re[b] * sin + im[b] * cos
+
+        re[b] = re[a] - tre
+        im[b] = im[a] - tim
+        re[a] += tre
+        im[a] += tim
+      }
+    }
+  }
+}
+
+/**
+ * Writes the byte spectrum of `samples` into `out`, like `AnalyserNode.getByteFrequencyData` without its smoothing
+ * over time: a Blackman window, the magnitude of every bin in decibels, and `minDecibels` to `maxDecibels` mapped to
+ * 0 to 255. `out` has one bin per two samples; `samples.length` must be a power of two.
+ */
+export const computeSpectrum = (
+  samples: Float32Array,
+  out: Uint8Array,
+  minDecibels = AUDIO_MIN_DECIBELS,
+  maxDecibels = AUDIO_MAX_DECIBELS,
+) => {
+  const n = samples.length
+  const re = new Float32Array(n)
+  const im = new Float32Array(n)
+
+  for (let i = 0; i < n; i++) {
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / n) + 0.08 * Math.cos((4 * Math.PI * i) / n)
+    re[i] = samples[i] * window
+  }
+
+  fft(re, im)
+
+  const scale = 255 / (maxDecibels - minDecibels)
+  for (let k = 0; k < out.length; k++) {
+    const magnitude = Math.hypot(re[k], im[k]) / n
+    const decibels = 20 * Math.log10(magnitude || Number.MIN_VALUE)
+    out[k] = Math.min(255, Math.max(0, Math.floor(scale * (decibels - minDecibels))))
+  }
+
+  return out
+}
+
+/**
+ * Average of the bins of a byte spectrum between `low` and `high` Hz, 0 to 1.
+ */
+export const getBandEnergy = (spectrum: Uint8Array, sampleRate: number, [low, high]: [number, number]) => {
+  const binWidth = sampleRate / 2 / spectrum.length
+  const first = Math.max(0, Math.floor(low / binWidth))
+  const last = Math.min(spectrum.length - 1, Math.ceil(high / binWidth))
+
+  let sum = 0
+  for (let k = first; k <= last; k++) {
+    sum += spectrum[k]
+  }
+
+  return last >= first ? sum / (last - first + 1) / 255 : 0
+}
+
+/**
+ * Root mean square of a waveform.
+ */
+export const getRMS = (samples: Float32Array) => {
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i]
+  }
+
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0
+}
+
+/**
+ * Moves `previous` towards `next`, faster on the way up (`attack`) than on the way down (`release`), both in seconds.
+ * Independent of the frame rate.
+ */
+export const smoothValue = (previous: number, next: number, delta: number, attack = ATTACK, release = RELEASE) => {
+  const duration = next > previous ? attack : release
+  return previous + (next - previous) * (1 - Math.exp(-delta / duration))
+}
+
+/**
+ * Whether `energy` is an onset: well above the recent average, loud enough and not too soon after the last one.
+ * Updates the average afterwards. The average starts at 0, so nothing counts during the first `window` seconds, while
+ * it settles; any sound would stand out against it until then.
+ */
+const detectOnset = (analysis: AudioAnalysis, energy: number, delta: number) => {
+  const { sensitivity, floor, cooldown, window } = analysis.options
+
+  const onset =
+    analysis.time >= window &&
+    energy > floor &&
+    energy > analysis.average + sensitivity * analysis.deviation &&
+    analysis.time - analysis.lastOnset >= cooldown
+
+  const amount = 1 - Math.exp(-delta / window)
+  analysis.deviation += (Math.abs(energy - analysis.average) - analysis.deviation) * amount
+  analysis.average += (energy - analysis.average) * amount
+
+  if (onset) {
+    analysis.lastOnset = analysis.time
+  }
+
+  return onset
+}
+
+/**
+ * Advances `analysis` by one frame of `delta` seconds.
+ * @param spectrum - Byte spectrum, e.g. from `getByteFrequencyData` or `computeSpectrum`
+ * @param waveform - The latest samples, e.g. from `getFloatTimeDomainData`
+ * @returns The updated `analysis.features`
+ */
+export const analyzeAudioFrame = (
+  analysis: AudioAnalysis,
+  spectrum: Uint8Array,
+  waveform: Float32Array,
+  sampleRate: number,
+  delta: number,
+): AudioFeatures => {
+  const { features } = analysis
+  const bass = getBandEnergy(spectrum, sampleRate, AUDIO_BANDS.bass)
+
+  analysis.time += delta
+  features.onset = detectOnset(analysis, bass, delta)
+  features.beat = features.onset ? 1 : features.beat * Math.exp(-delta / BEAT_DECAY)
+
+  features.bass = smoothValue(features.bass, bass, delta)
+  features.mid = smoothValue(features.mid, getBandEnergy(spectrum, sampleRate, AUDIO_BANDS.mid), delta)
+  features.treble = smoothValue(features.treble, getBandEnergy(spectrum, sampleRate, AUDIO_BANDS.treble), delta)
+  features.level = smoothValue(features.level, getRMS(waveform), delta)
+
+  return features
+}
+
+/**
+ * The parts of an `AudioBuffer` the offline analysis reads.
+ */
+export type AudioSamples = {
+  sampleRate: number
+  length: number
+  numberOfChannels: number
+  getChannelData: (channel: number) => Float32Array
+}
+
+/**
+ * Analyzes a whole decoded buffer offline, `frameRate` times per second of audio, the way the live analysis would
+ * while it plays.
+ * @returns The features of every frame, with the time in seconds at its end
+ */
+export const analyzeAudioBuffer = (
+  buffer: AudioSamples,
+  {
+    frameRate = 60,
+    fftSize = AUDIO_FFT_SIZE,
+    ...options
+  }: BeatDetectorOptions & { frameRate?: number; fftSize?: number } = {},
+) => {
+  // Channels are mixed down to mono, like an `AnalyserNode` does
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+
+  const analysis = createAudioAnalysis(options)
+  const spectrum = new Uint8Array(fftSize / 2)
+  const waveform = new Float32Array(fftSize)
+  const frames: Array<AudioFeatures & { time: number }> = []
+  const delta = 1 / frameRate
+
+  for (let frame = 1; frame * delta * buffer.sampleRate <= buffer.length; frame++) {
+    // The window ends at the frame's time; before the first `fftSize` samples it starts with silence
+    const end = Math.floor(frame * delta * buffer.sampleRate)
+    waveform.fill(0)
+    waveform.set(mono.subarray(Math.max(0, end - fftSize), end), Math.max(0, fftSize - end))
+
+    computeSpectrum(waveform, spectrum)
+    frames.push({ ...analyzeAudioFrame(analysis, spectrum, waveform, buffer.sampleRate, delta), time: frame * delta })
+  }
+
+  return frames
+}
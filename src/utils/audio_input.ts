@@ -0,0 +1,163 @@
+import { AUDIO_FFT_SIZE } from './audio_analysis'
+
+/**
+ * The Web Audio graph feeding the audio uniforms: one `AnalyserNode` with either a looping audio file or the
+ * microphone connected to it. Only the file is also played out loud. The graph is created on first use and kept for
+ * the session; browsers only let it start after a user gesture, such as a drop or a click.
+ */
+
+type AudioConnection = {
+  /** Set for files, which pause with the sketch clock */
+  element: HTMLAudioElement | null
+  disconnect: () => void
+}
+
+let graph: { context: AudioContext; analyser: AnalyserNode } | undefined
+let connection: AudioConnection | null = null
+// Bumped by every start and stop, so a source that finishes loading late doesn't replace a newer one
+let generation = 0
+
+const getGraph = () => {
+  if (!graph) {
+    const context = new AudioContext()
+    const analyser = context.createAnalyser()
+    analyser.fftSize = AUDIO_FFT_SIZE
+    // The analysis smooths its values itself, the same way live and offline (see `analyzeAudioBuffer`)
+    analyser.smoothingTimeConstant = 0
+
+    graph = { context, analyser }
+  }
+
+  return graph
+}
+
+export const isMicrophoneSupported = () => {
+  return typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia)
+}
+
+/**
+ * Disconnects the current source, if any.
+ */
+export const stopAudio = () => {
+  generation += 1
+  connection?.disconnect()
+  connection = null
+}
+
+/**
+ * Plays `file` on a loop and analyzes it, replacing the current source.
+ * @returns Whether it is the current source, rather than replaced by a newer one while it loaded
+ *
+ * @throws When the file can't be decoded or played
+ */
+export const playAudioFile = async (file: File) => {
+  stopAudio()
+  const started = generation
+  const { context, analyser } = getGraph()
+
+  const url = URL.createObjectURL(file)
+  const element = new Audio(url)
+  element.loop = true
+
+  const source = context.createMediaElementSource(element)
+  source.connect(analyser)
+  source.connect(context.destination)
+
+  const disconnect = () => {
+    element.pause()
+    source.disconnect()
+    URL.revokeObjectURL(url)
+  }
+
+  try {
+    await context.resume()
+    await element.play()
+  } catch (error) {
+    disconnect()
+    if (started !== generation) {
+      return false
+    }
+    throw error
+  }
+
+  if (started !== generation) {
+    disconnect()
+    return false
+  }
+
+  connection = { element, disconnect }
+  return true
+}
+
+/**
+ * Analyzes the microphone, replacing the current source. It isn't played back, to avoid feedback.
+ * @returns Whether it is the current source, rather than replaced by a newer one while access was asked for
+ *
+ * @throws When there is no microphone or access to it is denied
+ */
+export const startMicrophone = async () => {
+  stopAudio()
+  const started = generation
+  const { context, analyser } = getGraph()
+
+  let stream: MediaStream
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+  } catch (error) {
+    if (started !== generation) {
+      return false
+    }
+    throw error
+  }
+  const source = context.createMediaStreamSource(stream)
+  source.connect(analyser)
+
+  const disconnect = () => {
+    source.disconnect()
+    for (const track of stream.getTracks()) {
+      track.stop()
+    }
+  }
+
+  await context.resume()
+
+  if (started !== generation) {
+    disconnect()
+    return false
+  }
+
+  connection = { element: null, disconnect }
+  return true
+}
+
+/**
+ * Pauses or resumes a playing file. The microphone keeps going.
+ */
+export const setAudioPaused = (paused: boolean) => {
+  const element = connection?.element
+  if (!element || element.paused === paused) {
+    return
+  }
+
+  if (paused) {
+    element.pause()
+  } else {
+    element.play().catch(() => {})
+  }
+}
+
+/**
+ * Copies the analyser's current spectrum and waveform into `spectrum` (`AUDIO_FFT_SIZE / 2` bins) and `waveform`
+ * (`AUDIO_FFT_SIZE` samples).
+ * @returns The sample rate, or `undefined` when nothing is connected
+ */
+export const readAudioFrame = (spectrum: Uint8Array<ArrayBuffer>, waveform: Float32Array<ArrayBuffer>) => {
+  if (!connection || !graph) {
+    return undefined
+  }
+
+  graph.analyser.getByteFrequencyData(spectrum)
+  graph.analyser.getFloatTimeDomainData(waveform)
+
+  return graph.context.sampleRate
+}
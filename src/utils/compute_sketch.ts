@@ -0,0 +1,147 @@
+import { Fn, If, instanceIndex, positionLocal, storage, uint, uniform, vec3 } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import type {
+  ComputeBufferLayout,
+  ComputeBuffers,
+  ComputeBufferType,
+  ComputeRender,
+  ComputeSketch,
+} from './sketch_module'
+
+/** Threads per workgroup of compute sketch kernels */
+export const COMPUTE_WORKGROUP_SIZE = 64
+
+/** Longest step `update` is given, in seconds, so a stalled tab doesn't throw particles across the scene */
+export const MAX_COMPUTE_DELTA = 0.1
+
+const DEFAULT_SIZE = 0.02
+
+const ITEM_SIZES: Record<ComputeBufferType, number> = { float: 1, vec2: 2, vec3: 3, vec4: 4 }
+
+/**
+ * Everything a compute sketch needs on the GPU, see `createComputeResources`.
+ */
+export type ComputeResources = {
+  buffers: ComputeBuffers
+  init: THREE.ComputeNode | null
+  update: THREE.ComputeNode | null
+  /** Seconds of sketch time the next `update` advances by */
+  delta: THREE.UniformNode<number>
+  /** The instances, with `material` and `geometry` */
+  object: THREE.Mesh | THREE.Sprite | THREE.Points
+  material: THREE.NodeMaterial
+  geometry: THREE.BufferGeometry
+}
+
+/**
+ * Creates a zeroed storage buffer per entry of `layout`, `count` elements long.
+ */
+const createComputeBuffers = (count: number, layout: ComputeBufferLayout) => {
+  const buffers = {} as ComputeBuffers
+
+  for (const [name, type] of Object.entries(layout)) {
+    const attribute = new THREE.StorageInstancedBufferAttribute(count, ITEM_SIZES[type])
+    buffers[name] = storage(attribute, type, count)
+  }
+
+  return buffers
+}
+
+/**
+ * Wraps a kernel body into a compute node running it once per element. The last workgroup is only partly used when
+ * `count` isn't a multiple of the workgroup size, so its extra threads skip the body.
+ */
+const createKernel = (count: number, body: () => void) => {
+  const kernel = Fn(() => {
+    If(instanceIndex.lessThan(uint(count)), () => {
+      body()
+    })
+  })
+
+  return kernel().compute(count, [COMPUTE_WORKGROUP_SIZE]) as unknown as THREE.ComputeNode
+}
+
+/**
+ * Creates the object drawing one instance per buffer element.
+ */
+const createInstances = (render: ComputeRender, buffers: ComputeBuffers, count: number) => {
+  const position = render.position(buffers)
+  const size = render.size?.(buffers) ?? DEFAULT_SIZE
+
+  let material: THREE.NodeMaterial
+  let object: ComputeResources['object']
+
+  if (render.type === 'points') {
+    material = new THREE.PointsNodeMaterial()
+    material.positionNode = position
+
+    // A single vertex, instanced
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0], 3))
+    object = Object.assign(new THREE.Points(geometry, material), { count })
+  } else if (render.type === 'sprites') {
+    const sprite = new THREE.SpriteNodeMaterial()
+    sprite.positionNode = position
+    sprite.scaleNode = size
+    material = sprite
+
+    object = new THREE.Sprite(sprite)
+    object.count = count
+  } else {
+    material = new THREE.MeshBasicNodeMaterial({ side: THREE.DoubleSide })
+    material.positionNode = positionLocal.mul(size).add(position)
+
+    object = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material)
+    object.count = count
+  }
+
+  material.colorNode = render.color?.(buffers) ?? vec3(1)
+  if (render.opacity) {
+    material.opacityNode = render.opacity(buffers)
+  }
+  material.transparent = true
+  if (render.blending === 'additive') {
+    material.blending = THREE.AdditiveBlending
+    material.depthWrite = false
+  }
+
+  // Instances are placed on the GPU, the object's bounds don't cover them
+  object.frustumCulled = false
+
+  return { object, material, geometry: object.geometry }
+}
+
+/**
+ * Builds what a compute sketch describes: its storage buffers, the `init` and `update` kernels, and the object
+ * drawing its instances. Nothing is compiled or dispatched yet. Throws if the sketch's functions do.
+ */
+export const createComputeResources = ({
+  count,
+  buffers: layout,
+  init,
+  update,
+  render,
+}: ComputeSketch): ComputeResources => {
+  const buffers = createComputeBuffers(count, layout)
+  const delta = uniform(0) as THREE.UniformNode<number>
+
+  return {
+    buffers,
+    init: init ? createKernel(count, () => init(buffers)) : null,
+    update: update ? createKernel(count, () => update(buffers, { delta })) : null,
+    delta,
+    ...createInstances(render, buffers, count),
+  }
+}
+
+/**
+ * Releases the kernels, material and geometry of `resources`. Sprites share a geometry, which is left alone.
+ */
+export const disposeComputeResources = ({ init, update, object, material, geometry }: ComputeResources) => {
+  init?.dispose()
+  update?.dispose()
+  material.dispose()
+  if (!(object instanceof THREE.Sprite)) {
+    geometry.dispose()
+  }
+}
@@ -0,0 +1,68 @@
+import type { ActiveRendererBackend } from './renderer_backend'
+import type { ShaderDiagnostic } from './shader_diagnostics'
+import type { SketchParams } from './sketch_params'
+
+/** Prefix of every message type, so messages of other scripts on the host page are ignored */
+export const EMBED_MESSAGE_PREFIX = 'fragments:'
+
+/**
+ * Messages the host page sends to an `/embed/$` iframe with `iframe.contentWindow.postMessage(...)`.
+ *
+ * - `setParams`: Sets parameter values. Unknown keys and malformed values are ignored
+ * - `play` / `pause`: Controls the sketch clock
+ * - `capture`: Requests the next rendered frame as an image, answered with a `capture` event carrying the same `id`
+ */
+export type EmbedCommand =
+  | { type: 'fragments:setParams'; params: Record<string, unknown> }
+  | { type: 'fragments:play' }
+  | { type: 'fragments:pause' }
+  | { type: 'fragments:capture'; id?: string; mimeType?: 'image/png' | 'image/jpeg' | 'image/webp' }
+
+/**
+ * Messages an `/embed/$` iframe posts to its parent window.
+ *
+ * - `ready`: The sketch compiled and is rendering. Carries its param schema, e.g. to build controls on the host page
+ * - `error`: The sketch failed to load, build, compile or render
+ * - `capture`: Answer to a `capture` command
+ */
+export type EmbedEvent =
+  | { type: 'fragments:ready'; sketch: string; params: SketchParams; backend?: ActiveRendererBackend }
+  | { type: 'fragments:error'; sketch: string; message: string; kind?: ShaderDiagnostic['kind'] }
+  | { type: 'fragments:capture'; id?: string; blob: Blob }
+  | { type: 'fragments:capture'; id?: string; error: string }
+
+const COMMAND_TYPES = new Set<string>(['fragments:setParams', 'fragments:play', 'fragments:pause', 'fragments:capture'])
+const CAPTURE_MIME_TYPES = new Set<string>(['image/png', 'image/jpeg', 'image/webp'])
+
+/**
+ * Checks that a received message is a well-formed `EmbedCommand`.
+ */
+export const isEmbedCommand = (data: unknown): data is EmbedCommand => {
+  if (!data || typeof data !== 'object' || !COMMAND_TYPES.has((data as { type?: string }).type ?? '')) {
+    return false
+  }
+
+  const command = data as EmbedCommand
+  if (command.type === 'fragments:setParams') {
+    return !!command.params && typeof command.params === 'object' && !Array.isArray(command.params)
+  }
+
+  if (command.type === 'fragments:capture') {
+    return (
+      (command.id === undefined || typeof command.id === 'string') &&
+      (command.mimeType === undefined || CAPTURE_MIME_TYPES.has(command.mimeType))
+    )
+  }
+
+  return true
+}
+
+/**
+ * Posts an event to the page embedding this one. Does nothing outside of an iframe.
+ * Events go to any origin: they only describe the sketch, and captures are of public content.
+ */
+export const postEmbedEvent = (event: EmbedEvent) => {
+  if (window.parent !== window) {
+    window.parent.postMessage(event, '*')
+  }
+}
@@ -1,28 +1,71 @@
-import React from 'react'
+import React, { type ErrorInfo, type ReactNode } from 'react'
 
-export class ErrorBoundary extends React.Component<any, any> {
-  constructor(props: any) {
-    super(props)
-    this.state = { hasError: false }
+export type ErrorBoundaryFallbackProps = {
+  error: unknown
+  /** Clears the error and renders the children again */
+  reset: () => void
+}
+
+export type ErrorBoundaryProps = {
+  children?: ReactNode
+  /** Rendered instead of the children after an error. Defaults to a plain message */
+  fallback?: ReactNode | ((props: ErrorBoundaryFallbackProps) => ReactNode)
+  onError?: (error: unknown, info: ErrorInfo) => void
+  /** Called after the boundary was reset, either through `reset()` or `resetKeys` */
+  onReset?: () => void
+  /** The boundary resets itself whenever one of these changes, e.g. `[sketchPath]` */
+  resetKeys?: unknown[]
+}
+
+type ErrorBoundaryState = {
+  hasError: boolean
+  error: unknown
+}
+
+const haveKeysChanged = (previous: unknown[] = [], next: unknown[] = []) => {
+  return previous.length !== next.length || previous.some((key, index) => !Object.is(key, next[index]))
+}
+
+/**
+ * Catches errors thrown while rendering its children and shows a fallback instead.
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary resetKeys={[sketchPath]} fallback={({ error, reset }) => <ErrorOverlay error={error} onRetry={reset} />}>
+ *   <WebGPUScene>...</WebGPUScene>
+ * </ErrorBoundary>
+ * ```
+ */
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { hasError: false, error: null }
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { hasError: true, error }
+  }
+
+  componentDidCatch(error: unknown, errorInfo: ErrorInfo) {
+    console.error(error, errorInfo.componentStack)
+    this.props.onError?.(error, errorInfo)
   }
 
-  static getDerivedStateFromError(error: any) {
-    // Update state so the next render will show the fallback UI.
-    console.error(error)
-    return { hasError: true }
+  componentDidUpdate(previousProps: ErrorBoundaryProps) {
+    if (this.state.hasError && haveKeysChanged(previousProps.resetKeys, this.props.resetKeys)) {
+      this.reset()
+    }
   }
 
-  componentDidCatch(error: any, errorInfo: any) {
-    // You can also log the error to an error reporting service
-    console.error({ error, errorInfo })
+  reset = () => {
+    this.setState({ hasError: false, error: null })
+    this.props.onReset?.()
   }
 
   render() {
-    if (this.state.hasError) {
-      // You can render any custom fallback UI
-      return <h1>Something went wrong.</h1>
+    if (!this.state.hasError) {
+      return this.props.children
     }
 
-    return this.props.children
+    const { fallback = <h1>Something went wrong.</h1> } = this.props
+
+    return typeof fallback === 'function' ? fallback({ error: this.state.error, reset: this.reset }) : fallback
   }
 }
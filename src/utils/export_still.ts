@@ -0,0 +1,178 @@
+import * as THREE from 'three/webgpu'
+import type { NodeRepresentation } from 'three/tsl'
+import { clockTime } from '@/tsl/time/clock_time'
+import { sketchSeed } from '@/tsl/utils/seed'
+
+export type StillExportOptions = {
+  /** Output width in pixels */
+  width: number
+  /** Output height in pixels */
+  height: number
+  colorNode: NodeRepresentation
+  emissiveNode?: NodeRepresentation
+  /** Renders at this `clockTime` instead of the current one */
+  time?: number
+  /** Renders with this `sketchSeed` instead of the current one */
+  seed?: number
+  /** Upper bound for a single tile, on top of the device's texture size limit */
+  maxTileSize?: number
+  onProgress?: (tile: number, tiles: number) => void
+}
+
+const DEFAULT_MAX_TILE_SIZE = 4096
+
+/**
+ * Returns the largest 2D texture the renderer's backend supports.
+ */
+const getMaxTextureSize = (renderer: THREE.WebGPURenderer): number => {
+  const backend = renderer.backend as any
+
+  if (backend.device) {
+    return backend.device.limits.maxTextureDimension2D
+  }
+
+  if (backend.gl) {
+    return backend.gl.getParameter(backend.gl.MAX_TEXTURE_SIZE)
+  }
+
+  return DEFAULT_MAX_TILE_SIZE
+}
+
+/**
+ * Copies a tile read back from the GPU into a tightly packed, top-down `Uint8ClampedArray`.
+ * WebGPU pads rows to 256 bytes, and WebGL reads rows bottom-up.
+ */
+const unpackTile = (data: Uint8Array, width: number, height: number, flipY: boolean) => {
+  const rowLength = width * 4
+  const stride = height > 1 ? (data.length - rowLength) / (height - 1) : rowLength
+  const pixels = new Uint8ClampedArray(rowLength * height)
+
+  for (let row = 0; row < height; row++) {
+    const sourceRow = flipY ? height - 1 - row : row
+    const start = sourceRow * stride
+    pixels.set(data.subarray(start, start + rowLength), row * rowLength)
+  }
+
+  return pixels
+}
+
+/**
+ * Renders a sketch's color node into an offscreen canvas of any size.
+ *
+ * Sizes above the GPU limits are rendered as an n x n grid of tiles. Every tile has the aspect ratio of the whole
+ * image, so `screenSize` (which reports the tile's size while rendering into it) still yields the right aspect ratio,
+ * and `uv()` spans the whole image rather than a single tile.
+ */
+export const renderStill = async (
+  renderer: THREE.WebGPURenderer,
+  {
+    width,
+    height,
+    colorNode,
+    emissiveNode,
+    time,
+    seed,
+    maxTileSize = DEFAULT_MAX_TILE_SIZE,
+    onProgress,
+  }: StillExportOptions,
+): Promise<HTMLCanvasElement> => {
+  const tileLimit = Math.min(maxTileSize, getMaxTextureSize(renderer))
+  const grid = Math.ceil(Math.max(width, height) / tileLimit)
+  const tileWidth = Math.ceil(width / grid)
+  const tileHeight = Math.ceil(height / grid)
+
+  const material = new THREE.MeshBasicNodeMaterial({ transparent: true })
+  material.colorNode = colorNode
+  if (emissiveNode) {
+    material.emissiveNode = emissiveNode
+  }
+
+  const geometry = new THREE.PlaneGeometry(1, 1)
+  const scene = new THREE.Scene()
+  scene.add(new THREE.Mesh(geometry, material))
+
+  const camera = new THREE.OrthographicCamera(-0.5, 0.5, 0.5, -0.5, 0, 2)
+  camera.position.z = 1
+
+  const renderTarget = new THREE.RenderTarget(tileWidth, tileHeight, { depthBuffer: false })
+  const flipY = !(renderer.backend as any).isWebGPUBackend
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')!
+
+  const previousRenderTarget = renderer.getRenderTarget()
+
+  try {
+    for (let row = 0; row < grid; row++) {
+      for (let column = 0; column < grid; column++) {
+        const x = column * tileWidth
+        const y = row * tileHeight
+
+        // The last row and column may stick out of the image
+        const visibleWidth = Math.min(tileWidth, width - x)
+        const visibleHeight = Math.min(tileHeight, height - y)
+        if (visibleWidth <= 0 || visibleHeight <= 0) {
+          continue
+        }
+
+        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight)
+
+        // Uniform values are read during `render()`, so overrides are restored straight after and canvases sharing
+        // `clockTime` and `sketchSeed` never see them
+        const previousTime = clockTime.value
+        const previousSeed = sketchSeed.value
+        clockTime.value = time ?? previousTime
+        sketchSeed.value = seed ?? previousSeed
+
+        try {
+          renderer.setRenderTarget(renderTarget)
+          renderer.render(scene, camera)
+        } finally {
+          renderer.setRenderTarget(previousRenderTarget)
+          clockTime.value = previousTime
+          sketchSeed.value = previousSeed
+        }
+
+        const data = await renderer.readRenderTargetPixelsAsync(renderTarget, 0, 0, tileWidth, tileHeight)
+        const pixels = unpackTile(data as Uint8Array, tileWidth, tileHeight, flipY)
+
+        context.putImageData(new ImageData(pixels, tileWidth, tileHeight), x, y, 0, 0, visibleWidth, visibleHeight)
+        onProgress?.(row * grid + column + 1, grid * grid)
+      }
+    }
+  } finally {
+    renderer.setRenderTarget(previousRenderTarget)
+    renderTarget.dispose()
+    material.dispose()
+    geometry.dispose()
+  }
+
+  return canvas
+}
+
+/**
+ * Renders a still (see `renderStill`) and encodes it as a PNG.
+ */
+export const exportStill = async (renderer: THREE.WebGPURenderer, options: StillExportOptions): Promise<Blob> => {
+  const canvas = await renderStill(renderer, options)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png')
+  })
+}
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,159 @@
+import { screenUV, texture, uniform, vec4 } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import { createSketchMaterial } from './shader_diagnostics'
+import type { FeedbackDisplay, FeedbackSketch } from './sketch_module'
+import type { SketchUniforms } from './sketch_params'
+
+/** Longest step a feedback sketch is given, in seconds, so a stalled tab doesn't jump the simulation */
+export const MAX_FEEDBACK_DELTA = 0.1
+
+/**
+ * Everything a feedback sketch needs on the GPU, see `createFeedbackResources`.
+ */
+export type FeedbackResources = {
+  /** Read from and written to in turns */
+  targets: [THREE.RenderTarget, THREE.RenderTarget]
+  /** Index of the target holding the latest state */
+  current: number
+  /** The latest state, read by the next step */
+  previousFrame: THREE.TextureNode
+  /** The latest state, read by the display material */
+  state: THREE.TextureNode
+  resolution: THREE.UniformNode<THREE.Vector2>
+  frame: THREE.UniformNode<number>
+  delta: THREE.UniformNode<number>
+  /** Writes the next state, drawn into a target by `stepFeedback` */
+  step: THREE.NodeMaterial
+  /** Shows the latest state on the canvas */
+  display: THREE.MeshBasicNodeMaterial
+  scene: THREE.Scene
+  camera: THREE.OrthographicCamera
+  geometry: THREE.BufferGeometry
+}
+
+/**
+ * Creates a float render target holding a feedback sketch's state. Its texels are read at their centers, so it is
+ * sampled without filtering, which float32 textures don't support everywhere.
+ */
+const createStateTarget = (width: number, height: number) => {
+  return new THREE.RenderTarget(width, height, {
+    type: THREE.FloatType,
+    minFilter: THREE.NearestFilter,
+    magFilter: THREE.NearestFilter,
+    depthBuffer: false,
+  })
+}
+
+/**
+ * Builds the render targets and materials of a feedback sketch, with a state of `width` by `height` pixels.
+ * The step is drawn on a plane like the one of color node sketches, so `uv()` and `screenAspectUV` give the same
+ * coordinates as in the canvas. Nothing is rendered yet. Throws if the sketch's functions do.
+ */
+export const createFeedbackResources = (
+  sketch: FeedbackSketch,
+  display: FeedbackDisplay | undefined,
+  uniforms: SketchUniforms,
+  width = 1,
+  height = 1,
+): FeedbackResources => {
+  const targets: FeedbackResources['targets'] = [createStateTarget(width, height), createStateTarget(width, height)]
+  // Render target textures are read top down, like `screenUV`, on both backends
+  const previousFrame = texture(targets[0].texture, screenUV)
+  const state = texture(targets[0].texture, screenUV)
+  const resolution = uniform(new THREE.Vector2(width, height)) as THREE.UniformNode<THREE.Vector2>
+  const frame = uniform(0) as THREE.UniformNode<number>
+  const delta = uniform(0) as THREE.UniformNode<number>
+
+  // The state is written as is: no blending, tone mapping or color space conversion
+  const step = new THREE.NodeMaterial()
+  step.fragmentNode = vec4(sketch(uniforms, { previousFrame, resolution, frame, delta }))
+  step.blending = THREE.NoBlending
+  step.depthTest = false
+  step.depthWrite = false
+
+  const colorNode = display ? display(uniforms, { state, resolution }) : state
+
+  const geometry = new THREE.PlaneGeometry(2, 2)
+  const scene = new THREE.Scene()
+  scene.add(new THREE.Mesh(geometry, step))
+
+  return {
+    targets,
+    current: 0,
+    previousFrame,
+    state,
+    resolution,
+    frame,
+    delta,
+    step,
+    display: createSketchMaterial({ colorNode }),
+    scene,
+    camera: new THREE.OrthographicCamera(-1, 1, 1, -1, -1, 1),
+    geometry,
+  }
+}
+
+/**
+ * Clears both targets to transparent black and restarts the frame count.
+ */
+export const resetFeedback = (renderer: THREE.WebGPURenderer, resources: FeedbackResources) => {
+  const previousTarget = renderer.getRenderTarget()
+  const clearColor = renderer.getClearColor(new THREE.Color())
+  const clearAlpha = renderer.getClearAlpha()
+
+  renderer.setClearColor(0x000000, 0)
+  for (const target of resources.targets) {
+    renderer.setRenderTarget(target)
+    renderer.clear()
+  }
+  renderer.setClearColor(clearColor, clearAlpha)
+  renderer.setRenderTarget(previousTarget)
+
+  resources.frame.value = 0
+}
+
+/**
+ * Resizes the state to `width` by `height` pixels. Targets lose their contents when resized, so the state is reset.
+ */
+export const resizeFeedback = (
+  renderer: THREE.WebGPURenderer,
+  resources: FeedbackResources,
+  width: number,
+  height: number,
+) => {
+  for (const target of resources.targets) {
+    target.setSize(width, height)
+  }
+  resources.resolution.value.set(width, height)
+
+  resetFeedback(renderer, resources)
+}
+
+/**
+ * Draws the next state into the target not holding the latest one, then makes it the latest.
+ */
+export const stepFeedback = (renderer: THREE.WebGPURenderer, resources: FeedbackResources) => {
+  const next = 1 - resources.current
+  const previousTarget = renderer.getRenderTarget()
+
+  renderer.setRenderTarget(resources.targets[next])
+  renderer.render(resources.scene, resources.camera)
+  renderer.setRenderTarget(previousTarget)
+
+  resources.current = next
+  resources.previousFrame.value = resources.targets[next].texture
+  resources.state.value = resources.targets[next].texture
+  resources.frame.value += 1
+}
+
+/**
+ * Releases the targets, materials and geometry of `resources`.
+ */
+export const disposeFeedbackResources = ({ targets, step, display, geometry }: FeedbackResources) => {
+  for (const target of targets) {
+    target.dispose()
+  }
+  step.dispose()
+  display.dispose()
+  geometry.dispose()
+}
@@ -0,0 +1,19 @@
+/**
+ * Fast, non-cryptographic 53-bit hash of a string (cyrb53), as a base-36 string.
+ * Self-contained so that `vite.config.ts` can hash sketch sources with it.
+ */
+export const hashString = (text: string, seed: number = 0) => {
+  let h1 = 0xdeadbeef ^ seed
+  let h2 = 0x41c6ce57 ^ seed
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
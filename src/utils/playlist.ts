@@ -0,0 +1,107 @@
+import { TRANSITION_NAMES, isTransitionName, type TransitionName } from '@/tsl/transitions/transitions'
+
+/** Seconds a sketch shows for when the playlist doesn't say */
+export const DEFAULT_ITEM_DURATION = 10
+
+/** Seconds each transition takes when the playlist doesn't say */
+export const DEFAULT_TRANSITION_DURATION = 2
+
+export type PlaylistItem = {
+  path: string
+  /** Seconds from the start of this sketch to the start of the next one, its outgoing transition included */
+  duration: number
+}
+
+/**
+ * Where in the playlist a point in time falls.
+ *
+ * - `index`: The sketch showing, or fading out
+ * - `next`: The sketch after it, wrapping around to the first
+ * - `progress`: 0 while only `index` shows, then up to 1 during the transition to `next`
+ */
+export type PlaylistPosition = {
+  index: number
+  next: number
+  progress: number
+}
+
+/**
+ * Parses the `items` search param, e.g. `flare-1:10,nested/dawn-1:8`. A missing or invalid duration falls back to
+ * `DEFAULT_ITEM_DURATION`.
+ */
+export const parsePlaylistItems = (value?: string): PlaylistItem[] => {
+  if (!value) {
+    return []
+  }
+
+  return value
+    .split(',')
+    .map((entry) => {
+      const [path, duration] = entry.trim().split(':')
+      const seconds = Number(duration)
+
+      return { path, duration: Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_ITEM_DURATION }
+    })
+    .filter(({ path }) => path.length > 0)
+}
+
+/**
+ * Formats items back into the `items` search param, see `parsePlaylistItems`.
+ */
+export const formatPlaylistItems = (items: PlaylistItem[]) => {
+  return items.map(({ path, duration }) => `${path}:${duration}`).join(',')
+}
+
+/**
+ * Parses the `transition` search param: one transition name, or several separated by commas to take turns.
+ * Unknown names are dropped; without any, every transition takes a turn.
+ */
+export const parseTransitions = (value?: string): TransitionName[] => {
+  const names = (value ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(isTransitionName)
+
+  return names.length > 0 ? names : TRANSITION_NAMES
+}
+
+/**
+ * How long the transition out of an item lasts. It never takes more than half of the item.
+ */
+export const getTransitionDuration = (duration: number, transitionDuration: number) => {
+  return Math.max(0, Math.min(transitionDuration, duration / 2))
+}
+
+/**
+ * Finds where `time` falls in a playlist that loops forever. Each transition overlaps the end of the item it leaves.
+ * A single item never transitions.
+ */
+export const getPlaylistPosition = (
+  durations: number[],
+  transitionDuration: number,
+  time: number,
+): PlaylistPosition => {
+  const total = durations.reduce((sum, duration) => sum + duration, 0)
+  if (durations.length === 0 || total <= 0) {
+    return { index: 0, next: 0, progress: 0 }
+  }
+
+  let remaining = ((time % total) + total) % total
+
+  for (let index = 0; index < durations.length; index++) {
+    const duration = durations[index]
+
+    if (remaining < duration || index === durations.length - 1) {
+      const next = (index + 1) % durations.length
+      const length = durations.length > 1 ? getTransitionDuration(duration, transitionDuration) : 0
+      const start = duration - length
+      const progress = length > 0 && remaining > start ? Math.min((remaining - start) / length, 1) : 0
+
+      return { index, next, progress }
+    }
+
+    remaining -= duration
+  }
+
+  return { index: 0, next: 0, progress: 0 }
+}
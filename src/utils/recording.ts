@@ -0,0 +1,125 @@
+import { createZip, type ZipEntry } from './zip'
+import { createWebMMuxer, type WebMCodec } from './webm_muxer'
+
+export type RecordingFormat = 'png' | 'webm'
+
+/**
+ * Collects captured frames and packages them into a single file.
+ */
+export type FrameSink = {
+  /** Captures the canvas as frame `index`. Call right after the frame was rendered */
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>
+  finalize: () => Promise<Blob>
+  /** File extension of the finalized blob */
+  extension: string
+}
+
+/**
+ * Whether this browser can record WebM (requires WebCodecs).
+ */
+export const isWebMRecordingSupported = () => typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined'
+
+const canvasToPng = (canvas: HTMLCanvasElement) => {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png')
+  })
+}
+
+/**
+ * Captures every frame as a PNG and zips them up as `frame_00000.png`, `frame_00001.png`, ...
+ */
+export const createPngSequenceSink = (): FrameSink => {
+  const entries: ZipEntry[] = []
+
+  return {
+    extension: 'zip',
+    addFrame: async (canvas, index) => {
+      const png = await canvasToPng(canvas)
+      entries.push({
+        name: `frame_${String(index).padStart(5, '0')}.png`,
+        data: new Uint8Array(await png.arrayBuffer()),
+      })
+    },
+    finalize: async () => createZip(entries),
+  }
+}
+
+const CODECS: Array<{ config: string; codec: WebMCodec }> = [
+  { config: 'vp09.00.10.08', codec: 'V_VP9' },
+  { config: 'vp8', codec: 'V_VP8' },
+]
+
+/**
+ * Encodes frames with WebCodecs and muxes them into a WebM file. Frame timestamps come from the frame index,
+ * so the video plays back at `fps` however long each frame took to render.
+ */
+export const createWebMSink = async ({
+  width,
+  height,
+  fps,
+  bitrate = Math.round(width * height * fps * 0.2),
+  keyFrameInterval = fps * 2,
+}: {
+  width: number
+  height: number
+  fps: number
+  bitrate?: number
+  /** Frames between key frames */
+  keyFrameInterval?: number
+}): Promise<FrameSink> => {
+  let selected: (typeof CODECS)[number] | undefined
+  for (const candidate of CODECS) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: candidate.config, width, height, bitrate })
+    if (supported) {
+      selected = candidate
+      break
+    }
+  }
+
+  if (!selected) {
+    throw new Error(`No WebM codec supports ${width}x${height}`)
+  }
+
+  const muxer = createWebMMuxer({ width, height, codec: selected.codec })
+  let encoderError: Error | undefined
+
+  const encoder = new VideoEncoder({
+    output: (chunk) => muxer.addChunk(chunk),
+    error: (error) => {
+      encoderError = error
+    },
+  })
+  encoder.configure({ codec: selected.config, width, height, bitrate, framerate: fps })
+
+  const frameDuration = 1e6 / fps
+  let frames = 0
+
+  return {
+    extension: 'webm',
+    addFrame: async (canvas, index) => {
+      if (encoderError) {
+        throw encoderError
+      }
+
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: frameDuration })
+      encoder.encode(frame, { keyFrame: index % keyFrameInterval === 0 })
+      frame.close()
+      frames++
+
+      // Let the encoder catch up instead of queueing every frame in memory
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise((resolve) => encoder.addEventListener('dequeue', resolve, { once: true }))
+      }
+    },
+    finalize: async () => {
+      await encoder.flush()
+      encoder.close()
+
+      if (encoderError) {
+        throw encoderError
+      }
+
+      return muxer.finalize(frames / fps)
+    },
+  }
+}
@@ -0,0 +1,40 @@
+import { WebGPURenderer } from 'three/webgpu'
+
+/**
+ * Which backend `WebGPUScene` renders with.
+ *
+ * - `auto`: WebGPU where available, WebGL2 otherwise
+ * - `webgpu`: WebGPU only; fails when it is not available
+ * - `webgl`: Always WebGL2, e.g. to check how a sketch degrades without WebGPU
+ */
+export type RendererBackend = 'auto' | 'webgpu' | 'webgl'
+
+/** The backend a renderer ended up with */
+export type ActiveRendererBackend = 'webgpu' | 'webgl'
+
+export const RENDERER_BACKEND_LABELS: Record<ActiveRendererBackend, string> = {
+  webgpu: 'WebGPU',
+  webgl: 'WebGL 2',
+}
+
+export const getActiveBackend = (renderer: WebGPURenderer): ActiveRendererBackend => {
+  return (renderer.backend as any).isWebGPUBackend ? 'webgpu' : 'webgl'
+}
+
+/**
+ * Creates and initializes a `WebGPURenderer` on the requested backend.
+ *
+ * @throws When `backend` is `'webgpu'` and WebGPU is not available
+ */
+export const createRenderer = async (props: Record<string, any>, backend: RendererBackend = 'auto') => {
+  const renderer = new WebGPURenderer({ ...props, forceWebGL: backend === 'webgl' })
+
+  await renderer.init()
+
+  if (backend === 'webgpu' && getActiveBackend(renderer) !== 'webgpu') {
+    renderer.dispose()
+    throw new Error('WebGPU is not available in this browser. Use the `auto` or `webgl` backend instead.')
+  }
+
+  return renderer
+}
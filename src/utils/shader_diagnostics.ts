@@ -0,0 +1,280 @@
+import * as THREE from 'three/webgpu'
+import type { NodeRepresentation } from 'three/tsl'
+import { getActiveBackend } from './renderer_backend'
+
+export type ShaderStage = 'vertex' | 'fragment'
+
+export type ShaderLanguage = 'WGSL' | 'GLSL'
+
+export type ShaderSourceLine = {
+  /** 1-based line number in the generated source */
+  number: number
+  text: string
+  /** Whether this is the line the error points at */
+  error: boolean
+}
+
+/**
+ * Describes why a sketch failed to compile.
+ *
+ * - `build`: The node graph threw while being built (e.g. a TSL type error or a bad `Fn` call)
+ * - `compile`: The node graph built, but the generated WGSL/GLSL was rejected by the GPU
+ */
+export type ShaderDiagnostic = {
+  kind: 'build' | 'compile'
+  message: string
+  /** `compute` for the kernels of compute sketches */
+  stage?: ShaderStage | 'compute'
+  language?: ShaderLanguage
+  line?: number
+  /** 1-based column the error starts at, if known */
+  column?: number
+  /** The offending line with a few lines of context */
+  excerpt?: ShaderSourceLine[]
+  stack?: string
+}
+
+type CompileError = { message: string; line?: number; column?: number }
+
+type SketchNodes = { colorNode: NodeRepresentation; emissiveNode?: NodeRepresentation }
+
+const CONTEXT_LINES = 4
+
+/**
+ * Returns the lines around `line` (1-based) in `code`.
+ */
+export const getSourceExcerpt = (code: string, line: number, context = CONTEXT_LINES): ShaderSourceLine[] => {
+  const lines = code.split('\n')
+  const start = Math.max(1, line - context)
+  const end = Math.min(lines.length, line + context)
+
+  const excerpt: ShaderSourceLine[] = []
+  for (let number = start; number <= end; number++) {
+    excerpt.push({ number, text: lines[number - 1], error: number === line })
+  }
+
+  return excerpt
+}
+
+/**
+ * Wraps an exception thrown while building or rendering a sketch.
+ */
+export const toBuildDiagnostic = (error: unknown): ShaderDiagnostic => {
+  return {
+    kind: 'build',
+    message: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+  }
+}
+
+const compileWGSL = async (device: any, code: string): Promise<CompileError | null> => {
+  const module = device.createShaderModule({ code })
+  const { messages } = await module.getCompilationInfo()
+  const error = messages.find((message: any) => message.type === 'error')
+
+  return error ? { message: error.message, line: error.lineNum || undefined, column: error.linePos || undefined } : null
+}
+
+const compileGLSL = (gl: WebGL2RenderingContext, stage: ShaderStage, code: string): CompileError | null => {
+  const shader = gl.createShader(stage === 'vertex' ? gl.VERTEX_SHADER : gl.FRAGMENT_SHADER)
+  if (!shader) {
+    return null
+  }
+
+  gl.shaderSource(shader, code)
+  gl.compileShader(shader)
+
+  let error: CompileError | null = null
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader) || 'Unknown GLSL error'
+    // e.g. "ERROR: 0:42: 'foo' : undeclared identifier"
+    const match = /ERROR:\s*\d+:(\d+):\s*(.*)/.exec(log)
+    error = match ? { message: match[2], line: Number(match[1]) } : { message: log }
+  }
+
+  gl.deleteShader(shader)
+
+  return error
+}
+
+export type ShaderCode = { vertexShader: string; fragmentShader: string }
+
+/**
+ * The shading language the renderer's backend generates.
+ */
+export const getShaderLanguage = (renderer: THREE.WebGPURenderer): ShaderLanguage => {
+  return getActiveBackend(renderer) === 'webgpu' ? 'WGSL' : 'GLSL'
+}
+
+/**
+ * Creates the material a sketch renders with (see `WebGPUSketch`).
+ */
+export const createSketchMaterial = ({ colorNode, emissiveNode }: SketchNodes) => {
+  const material = new THREE.MeshBasicNodeMaterial({ transparent: true })
+  material.colorNode = colorNode
+  if (emissiveNode) {
+    material.emissiveNode = emissiveNode
+  }
+
+  return material
+}
+
+/**
+ * Builds `material` on a throwaway mesh and returns the shader code the renderer generates for it.
+ * Building happens through the renderer, so the code is exactly what the material would render with.
+ * The mesh is a quad, unless `geometry` is given (e.g. for materials reading custom attributes).
+ * Neither the material nor `geometry` are disposed.
+ */
+export const getMaterialShaders = async (
+  renderer: THREE.WebGPURenderer,
+  material: THREE.Material,
+  geometry?: THREE.BufferGeometry,
+): Promise<ShaderCode> => {
+  const quad = geometry ? null : new THREE.PlaneGeometry(1, 1)
+  const mesh = new THREE.Mesh(geometry ?? quad!, material)
+  const scene = new THREE.Scene()
+  scene.add(mesh)
+  const camera = new THREE.OrthographicCamera(-0.5, 0.5, 0.5, -0.5, 0, 2)
+
+  try {
+    return await renderer.debug.getShaderAsync(scene, camera, mesh)
+  } finally {
+    quad?.dispose()
+  }
+}
+
+/**
+ * Builds the pipelines of `materials` ahead of time, so the first frame that shows them doesn't stall.
+ * Pipelines are compiled for the canvas, as `targetScene` renders them (see `Renderer.compileAsync`). A single
+ * offscreen frame then builds what only runs while rendering, e.g. the passes of `convertToTexture` nodes.
+ * The materials are not disposed.
+ */
+export const precompileMaterials = async (
+  renderer: THREE.WebGPURenderer,
+  materials: THREE.Material[],
+  targetScene: THREE.Scene,
+) => {
+  const geometry = new THREE.PlaneGeometry(1, 1)
+  const scene = new THREE.Scene()
+  for (const material of materials) {
+    scene.add(new THREE.Mesh(geometry, material))
+  }
+  const camera = new THREE.OrthographicCamera(-0.5, 0.5, 0.5, -0.5, 0, 2)
+  const renderTarget = new THREE.RenderTarget(1, 1)
+
+  try {
+    await renderer.compileAsync(scene, camera, targetScene)
+
+    const previousRenderTarget = renderer.getRenderTarget()
+    renderer.setRenderTarget(renderTarget)
+    renderer.render(scene, camera)
+    renderer.setRenderTarget(previousRenderTarget)
+  } finally {
+    renderTarget.dispose()
+    geometry.dispose()
+  }
+}
+
+/**
+ * Compiles a material offscreen and reports the first build or shader compilation error. See `getMaterialShaders`
+ * for `geometry`.
+ *
+ * @returns `null` if the material compiles
+ */
+export const diagnoseMaterial = async (
+  renderer: THREE.WebGPURenderer,
+  material: THREE.Material,
+  geometry?: THREE.BufferGeometry,
+): Promise<ShaderDiagnostic | null> => {
+  let shaders: ShaderCode
+  try {
+    shaders = await getMaterialShaders(renderer, material, geometry)
+  } catch (error) {
+    return toBuildDiagnostic(error)
+  }
+
+  const backend = renderer.backend as any
+  const language = getShaderLanguage(renderer)
+
+  for (const stage of ['vertex', 'fragment'] as const) {
+    const code = stage === 'vertex' ? shaders.vertexShader : shaders.fragmentShader
+    const error = backend.isWebGPUBackend
+      ? await compileWGSL(backend.device, code)
+      : backend.gl
+        ? compileGLSL(backend.gl, stage, code)
+        : null
+
+    if (error) {
+      return {
+        kind: 'compile',
+        message: error.message,
+        stage,
+        language,
+        line: error.line,
+        column: error.column,
+        excerpt: error.line ? getSourceExcerpt(code, error.line) : undefined,
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Builds a compute node and compiles the kernel the renderer would dispatch, without running it. Reports the first
+ * build or shader compilation error. On the WebGL2 backend, kernels are vertex shaders run with transform feedback.
+ *
+ * @returns `null` if the kernel compiles
+ */
+export const diagnoseCompute = async (
+  renderer: THREE.WebGPURenderer,
+  computeNode: THREE.ComputeNode,
+): Promise<ShaderDiagnostic | null> => {
+  const backend = renderer.backend as any
+  let code: string
+  try {
+    const builder = backend.createNodeBuilder(computeNode, renderer)
+    builder.build()
+    code = builder.computeShader
+  } catch (error) {
+    return toBuildDiagnostic(error)
+  }
+
+  const error = backend.isWebGPUBackend
+    ? await compileWGSL(backend.device, code)
+    : backend.gl
+      ? compileGLSL(backend.gl, 'vertex', code)
+      : null
+
+  if (!error) {
+    return null
+  }
+
+  return {
+    kind: 'compile',
+    message: error.message,
+    stage: 'compute',
+    language: getShaderLanguage(renderer),
+    line: error.line,
+    column: error.column,
+    excerpt: error.line ? getSourceExcerpt(code, error.line) : undefined,
+  }
+}
+
+/**
+ * Compiles a sketch's color node offscreen and reports the first build or shader compilation error.
+ *
+ * @returns `null` if the sketch compiles
+ */
+export const diagnoseSketch = async (
+  renderer: THREE.WebGPURenderer,
+  nodes: SketchNodes,
+): Promise<ShaderDiagnostic | null> => {
+  const material = createSketchMaterial(nodes)
+
+  try {
+    return await diagnoseMaterial(renderer, material)
+  } finally {
+    material.dispose()
+  }
+}
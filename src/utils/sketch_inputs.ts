@@ -0,0 +1,322 @@
+import { float, screenSize, texture, uniform } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import type { TextureNode, UniformNode } from 'three/webgpu'
+import { useClockStore } from '@/stores/clock_store'
+import { fitUV, screenAspectUV } from '@/tsl/utils/function'
+
+/**
+ * How an input is fitted into the canvas:
+ *
+ * - `cover`: Fills the canvas, cropping the input. The default
+ * - `contain`: Shows the whole input; outside of it, its edge pixels repeat
+ * - `stretch`: Fills the canvas, distorting the input
+ */
+export type InputFit = 'cover' | 'contain' | 'stretch'
+
+export type SketchInput = {
+  type: 'image' | 'video'
+  label?: string
+  /** Loaded until a file is dropped in, e.g. `/inputs/test-card.svg` for `public/inputs/test-card.svg` */
+  src?: string
+  fit?: InputFit
+}
+
+/**
+ * Texture inputs a sketch module can export as `inputs`. Each one arrives next to the param uniforms as a texture
+ * node, so names must not clash with params. Drop a file on the canvas to replace an input.
+ *
+ * @example
+ * ```ts
+ * export const inputs = {
+ *   photo: { type: 'image', src: '/inputs/test-card.svg', fit: 'cover' },
+ *   clip: { type: 'video', fit: 'contain' },
+ * } satisfies SketchInputs
+ *
+ * const sketch = Fn(({ photo, clip, mixing }: SketchUniforms<typeof params> & SketchInputNodes<typeof inputs>) => {
+ *   return mix(photo, clip, mixing)
+ * })
+ * ```
+ */
+export type SketchInputs = Record<string, SketchInput>
+
+/**
+ * The texture node of each input. Sampled as is, it covers the canvas as the input's `fit` says; use
+ * `.sample(uv)` for other coordinates (see `fitUV`).
+ */
+export type SketchInputNodes<I extends SketchInputs = SketchInputs> = { [K in keyof I]: TextureNode }
+
+/**
+ * A loaded image or video.
+ */
+export type InputSource = {
+  texture: THREE.Texture
+  video: HTMLVideoElement | null
+  /** Object url of a dropped file, revoked with the source */
+  objectUrl: string | null
+  /** File name or url, for display */
+  name: string
+}
+
+/**
+ * The runtime state of one input: its texture node and what it currently shows.
+ */
+export type SketchInputSlot = {
+  input: SketchInput
+  node: TextureNode
+  /** Size of the current source in pixels */
+  size: UniformNode<THREE.Vector2>
+  /** `null` while the placeholder shows */
+  source: InputSource | null
+}
+
+export type SketchInputSlots = Record<string, SketchInputSlot>
+
+const FITS: Record<InputFit, number> = { stretch: 0, cover: 1, contain: 2 }
+
+/** Seconds a playing video may drift from the sketch clock before it is seeked back */
+const MAX_VIDEO_DRIFT = 0.15
+
+// Shown until an input loads: one transparent pixel
+const placeholder = new THREE.DataTexture(new Uint8Array(4), 1, 1)
+placeholder.minFilter = THREE.LinearFilter
+placeholder.magFilter = THREE.LinearFilter
+placeholder.needsUpdate = true
+
+/**
+ * Creates a texture node per input, showing a transparent placeholder until a source is set.
+ */
+export const createInputSlots = (inputs: SketchInputs = {}): SketchInputSlots => {
+  const slots: SketchInputSlots = {}
+
+  for (const [name, input] of Object.entries(inputs)) {
+    const size = uniform(new THREE.Vector2(1, 1)) as UniformNode<THREE.Vector2>
+    const uv = fitUV(screenAspectUV(screenSize), screenSize, size, float(FITS[input.fit ?? 'cover']))
+
+    slots[name] = { input, node: texture(placeholder, uv), size, source: null }
+  }
+
+  return slots
+}
+
+/**
+ * The texture node of every slot, to pass to the sketch next to its param uniforms.
+ */
+export const getInputNodes = (slots: SketchInputSlots): SketchInputNodes => {
+  const nodes: SketchInputNodes = {}
+
+  for (const name in slots) {
+    nodes[name] = slots[name].node
+  }
+
+  return nodes
+}
+
+const loadVideo = (url: string) => {
+  const video = document.createElement('video')
+  video.crossOrigin = 'anonymous'
+  video.muted = true
+  video.loop = true
+  video.playsInline = true
+  video.preload = 'auto'
+
+  return new Promise<HTMLVideoElement>((resolve, reject) => {
+    video.addEventListener('loadeddata', () => resolve(video), { once: true })
+    video.addEventListener('error', () => reject(new Error(`Failed to load video ${url}`)), { once: true })
+    video.src = url
+  })
+}
+
+/**
+ * The type of input a file can replace, from its MIME type.
+ */
+export const getFileInputType = (file: File): SketchInput['type'] | undefined => {
+  if (file.type.startsWith('image/')) {
+    return 'image'
+  }
+  if (file.type.startsWith('video/')) {
+    return 'video'
+  }
+
+  return undefined
+}
+
+/**
+ * Loads an image or video from a url or a dropped file.
+ */
+export const loadInputSource = async (type: SketchInput['type'], from: string | File): Promise<InputSource> => {
+  const objectUrl = typeof from === 'string' ? null : URL.createObjectURL(from)
+  const url = objectUrl ?? (from as string)
+  const name = typeof from === 'string' ? from : from.name
+
+  try {
+    if (type === 'video') {
+      const video = await loadVideo(url)
+      const texture = new THREE.VideoTexture(video)
+      texture.colorSpace = THREE.SRGBColorSpace
+
+      return { texture, video, objectUrl, name }
+    }
+
+    const texture = await new THREE.TextureLoader().loadAsync(url)
+    texture.colorSpace = THREE.SRGBColorSpace
+
+    return { texture, video: null, objectUrl, name }
+  } catch (error) {
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl)
+    }
+    throw error
+  }
+}
+
+export const disposeInputSource = ({ texture, video, objectUrl }: InputSource) => {
+  texture.dispose()
+  if (video) {
+    video.pause()
+    video.removeAttribute('src')
+    video.load()
+  }
+  if (objectUrl) {
+    URL.revokeObjectURL(objectUrl)
+  }
+}
+
+const getSourceSize = ({ texture, video }: InputSource) => {
+  if (video) {
+    return { width: video.videoWidth, height: video.videoHeight }
+  }
+
+  const image = texture.image as { width: number; height: number }
+  return { width: image.width, height: image.height }
+}
+
+/**
+ * Shows `source` in `slot`, disposing what it showed before.
+ */
+export const setInputSource = (slot: SketchInputSlot, source: InputSource) => {
+  const previous = slot.source
+  const { width, height } = getSourceSize(source)
+
+  slot.source = source
+  slot.node.value = source.texture
+  slot.size.value.set(Math.max(1, width), Math.max(1, height))
+
+  if (previous) {
+    disposeInputSource(previous)
+  }
+}
+
+/**
+ * Loads every input from its dropped file in `files`, if of its type, or else its `src`; inputs with neither keep what they show.
+ * Failures are logged, leaving the input as it was. Sources that finish loading once `isCancelled` returns true are
+ * disposed instead of set.
+ */
+export const loadInputs = async (
+  slots: SketchInputSlots,
+  files: Record<string, File> = {},
+  isCancelled: () => boolean = () => false,
+) => {
+  await Promise.all(
+    Object.entries(slots).map(async ([name, slot]) => {
+      const file = files[name] && getFileInputType(files[name]) === slot.input.type ? files[name] : undefined
+      const from = file ?? slot.input.src
+      if (!from) {
+        return
+      }
+
+      try {
+        const source = await loadInputSource(slot.input.type, from)
+        if (isCancelled()) {
+          disposeInputSource(source)
+        } else {
+          setInputSource(slot, source)
+        }
+      } catch (error) {
+        console.warn(`Input "${name}" failed to load:`, error)
+      }
+    }),
+  )
+}
+
+export const disposeInputSlots = (slots: SketchInputSlots) => {
+  for (const slot of Object.values(slots)) {
+    if (slot.source) {
+      disposeInputSource(slot.source)
+      slot.source = null
+    }
+    slot.node.value = placeholder
+  }
+}
+
+/**
+ * Keeps every video of `slots` on the sketch clock: playing at its rate while it runs, seeked to its time while it
+ * is paused or scrubbed. Videos loop, so the clock time wraps around their duration.
+ */
+export const syncInputVideos = (slots: SketchInputSlots, clock: { time: number; paused: boolean; rate: number }) => {
+  for (const slot of Object.values(slots)) {
+    const video = slot.source?.video
+    if (!video || !Number.isFinite(video.duration) || video.duration <= 0) {
+      continue
+    }
+
+    const { duration } = video
+    const target = ((clock.time % duration) + duration) % duration
+    const distance = Math.abs(video.currentTime - target)
+    const drift = Math.min(distance, duration - distance)
+
+    // Videos can't play backwards, so reversed playback seeks frame by frame like scrubbing
+    const playing = !clock.paused && clock.rate > 0
+
+    if (playing) {
+      video.playbackRate = clock.rate
+      if (video.paused) {
+        video.play().catch(() => {})
+      }
+    } else if (!video.paused) {
+      video.pause()
+    }
+
+    if (drift > (playing ? MAX_VIDEO_DRIFT : 0.5 / 60) && !video.seeking) {
+      video.currentTime = target
+    }
+  }
+}
+
+/**
+ * The first input `file` can replace, preferring `name` when given and compatible.
+ */
+export const getInputForFile = (inputs: SketchInputs, file: File, name?: string) => {
+  const type = getFileInputType(file)
+  if (!type) {
+    return undefined
+  }
+
+  if (name && inputs[name]?.type === type) {
+    return name
+  }
+
+  return Object.keys(inputs).find((key) => inputs[key].type === type)
+}
+
+/**
+ * Loads the inputs of `slots` (see `loadInputs`) and keeps their videos on the sketch clock until the returned
+ * function is called, which also disposes them.
+ * @param onLoad - Called once everything loaded, e.g. to show the names of the sources
+ */
+export const startSketchInputs = (slots: SketchInputSlots, files?: Record<string, File>, onLoad?: () => void) => {
+  let cancelled = false
+
+  loadInputs(slots, files, () => cancelled).then(() => {
+    if (!cancelled) {
+      syncInputVideos(slots, useClockStore.getState())
+      onLoad?.()
+    }
+  })
+  const unsubscribe = useClockStore.subscribe((state) => syncInputVideos(slots, state))
+
+  return () => {
+    cancelled = true
+    unsubscribe()
+    disposeInputSlots(slots)
+  }
+}
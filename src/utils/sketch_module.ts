@@ -0,0 +1,329 @@
+import type { NodeRepresentation } from 'three/tsl'
+import type { StorageBufferNode, TextureNode, UniformNode, Vector2 } from 'three/webgpu'
+import type { PostProcessingEffect, PostProcessingWrap } from '@/tsl/post_processing/pipeline'
+import type { SketchInputs } from './sketch_inputs'
+import type { SketchParams, SketchUniforms } from './sketch_params'
+
+/**
+ * Optional metadata a sketch module can export alongside its default export.
+ *
+ * @example
+ * ```ts
+ * export const meta: SketchMeta = {
+ *   title: 'Flare 1',
+ *   description: 'A gradient sketch with fractionated coordinates',
+ *   tags: ['gradient', 'palette'],
+ *   aspectRatio: '4:5',
+ * }
+ * ```
+ */
+export type SketchMeta = {
+  title?: string
+  description?: string
+  tags?: string[]
+  author?: string
+  license?: string
+  /** ISO 8601 date, e.g. `2025-06-01` */
+  created?: string
+  /** Preferred canvas aspect ratio, either `width / height` or a `'W:H'` string */
+  aspectRatio?: number | `${number}:${number}`
+}
+
+/**
+ * A post-processing stack a sketch module can export as `postProcessing`, applied on top of its `colorNode`.
+ * Export a function instead of an object to drive effect args with the sketch's param uniforms.
+ *
+ * @example
+ * ```ts
+ * export const postProcessing: SketchPostProcessing<typeof params> = ({ scanlines }) => ({
+ *   effects: [
+ *     { effect: crtScanlineEffect, args: { lineIntensity: scanlines } },
+ *     { effect: vignetteEffect },
+ *   ],
+ * })
+ * ```
+ */
+export type SketchPostProcessingConfig = {
+  effects: PostProcessingEffect[]
+  wrap?: PostProcessingWrap
+}
+
+export type SketchPostProcessing<S extends SketchParams = SketchParams> =
+  | SketchPostProcessingConfig
+  | ((uniforms: SketchUniforms<S>) => SketchPostProcessingConfig)
+
+/**
+ * What a sketch module's default export is.
+ *
+ * - `node`: A function of the param uniforms returning the color node of a fullscreen plane. The default
+ * - `scene`: A React Three Fiber component taking the param uniforms as `uniforms` (see `SceneSketchProps`), rendered
+ *   with a perspective camera (see `SketchCamera`). Scene sketches are `.tsx` files
+ * - `compute`: A function of the param uniforms returning a `ComputeSketch`: storage buffers updated by compute
+ *   kernels every frame and drawn as instances, also with a perspective camera
+ * - `feedback`: A function of the param uniforms and a `FeedbackFrame` returning the next state of a fullscreen
+ *   buffer, computed from the previous one (see `FeedbackSketch`)
+ */
+export type SketchKind = 'node' | 'scene' | 'compute' | 'feedback'
+
+/**
+ * The perspective camera of a scene sketch, exported as `camera`.
+ *
+ * @example
+ * ```ts
+ * export const camera: SketchCamera = { position: [0, 1, 4], fov: 40, controls: true }
+ * ```
+ */
+export type SketchCamera = {
+  /** Defaults to `[0, 0, 5]` */
+  position?: [number, number, number]
+  /** The point the camera looks at, and orbits around. Defaults to the origin */
+  target?: [number, number, number]
+  /** Vertical field of view in degrees. Defaults to 50 */
+  fov?: number
+  near?: number
+  far?: number
+  /** Adds orbit controls: drag to rotate, scroll to zoom, right drag to pan */
+  controls?: boolean
+}
+
+/**
+ * Props of a scene sketch's default export.
+ */
+export type SceneSketchProps<S extends SketchParams = SketchParams> = {
+  uniforms: SketchUniforms<S>
+}
+
+/**
+ * Type of each element of a compute sketch's storage buffer.
+ */
+export type ComputeBufferType = 'float' | 'vec2' | 'vec3' | 'vec4'
+
+export type ComputeBufferLayout = Record<string, ComputeBufferType>
+
+/**
+ * The storage buffers of a compute sketch, by name. Read and write the current instance's element with
+ * `buffer.element(instanceIndex)`; in render nodes, prefer `buffer.toAttribute()`.
+ */
+export type ComputeBuffers<B extends ComputeBufferLayout = ComputeBufferLayout> = Record<keyof B, StorageBufferNode>
+
+/**
+ * Per-frame values passed to a compute sketch's `update`.
+ */
+export type ComputeFrame = {
+  /** Seconds of sketch time since the previous update, 0 to `MAX_COMPUTE_DELTA` */
+  delta: UniformNode<number>
+}
+
+/**
+ * How a compute sketch draws its instances, one per buffer element.
+ *
+ * - `points`: One pixel points
+ * - `sprites`: Quads facing the camera, `size` wide
+ * - `quads`: Quads in the XY plane, `size` wide
+ */
+export type ComputeRender<B extends ComputeBufferLayout = ComputeBufferLayout> = {
+  type: 'points' | 'sprites' | 'quads'
+  /** Position of an instance, e.g. `buffers.position.toAttribute()` */
+  position: (buffers: ComputeBuffers<B>) => NodeRepresentation
+  /** Defaults to white */
+  color?: (buffers: ComputeBuffers<B>) => NodeRepresentation
+  /** Defaults to 1 */
+  opacity?: (buffers: ComputeBuffers<B>) => NodeRepresentation
+  /** Width of sprites and quads in world units. Defaults to 0.02 */
+  size?: (buffers: ComputeBuffers<B>) => NodeRepresentation
+  /** `additive` suits glowing particles. Defaults to `normal` */
+  blending?: 'normal' | 'additive'
+}
+
+/**
+ * What the default export of a compute sketch returns. `init` and `update` are the bodies of compute kernels run
+ * once per buffer element: they read `instanceIndex` and write the buffers with `assign`. The framework wraps
+ * them in a `Fn` and dispatches them over `count` elements.
+ *
+ * @example
+ * ```ts
+ * const buffers = { position: 'vec3' } satisfies ComputeBufferLayout
+ *
+ * export default ({ speed }: SketchUniforms<typeof params>): ComputeSketch<typeof buffers> => ({
+ *   count: 10000,
+ *   buffers,
+ *   init: ({ position }) => {
+ *     position.element(instanceIndex).assign(hash3(instanceIndex).sub(0.5))
+ *   },
+ *   update: ({ position }, { delta }) => {
+ *     const p = position.element(instanceIndex)
+ *     p.addAssign(curlNoise3d(p).mul(speed).mul(delta))
+ *   },
+ *   render: { type: 'sprites', position: ({ position }) => position.toAttribute() },
+ * })
+ * ```
+ */
+export type ComputeSketch<B extends ComputeBufferLayout = ComputeBufferLayout> = {
+  /** Number of elements in every buffer, and of instances drawn */
+  count: number
+  buffers: B
+  /** Writes the first state of the element at `instanceIndex`. Runs again when the seed changes or time rewinds */
+  init?: (buffers: ComputeBuffers<B>) => void
+  /** Advances the element at `instanceIndex` by one frame. Doesn't run while the clock is paused */
+  update?: (buffers: ComputeBuffers<B>, frame: ComputeFrame) => void
+  render: ComputeRender<B>
+}
+
+/**
+ * What the default export of a feedback sketch is given besides the param uniforms.
+ */
+export type FeedbackFrame = {
+  /**
+   * The state the previous step wrote, at the current pixel. Read neighbours with
+   * `previousFrame.sample(screenUV.add(offset.div(resolution)))`
+   */
+  previousFrame: TextureNode
+  /** Size of the state in pixels, which is the canvas' size. `screenAspectUV` works as in other sketches */
+  resolution: UniformNode<Vector2>
+  /** Steps since the state was reset, 0 for the first one. Seed the state with `select(frame.equal(0), ...)` */
+  frame: UniformNode<number>
+  /** Seconds of sketch time the step advances by, 0 to `MAX_FEEDBACK_DELTA` */
+  delta: UniformNode<number>
+}
+
+/**
+ * What a feedback sketch's optional `display` export is given besides the param uniforms.
+ */
+export type FeedbackDisplayFrame = {
+  /** The state the last step wrote, at the current pixel */
+  state: TextureNode
+  resolution: UniformNode<Vector2>
+}
+
+/**
+ * The default export of a feedback sketch: the next state (a `vec4`, stored as floats) of every pixel.
+ *
+ * @example
+ * ```ts
+ * export const kind: SketchKind = 'feedback'
+ *
+ * // Trails: the previous frame fades out under a moving dot
+ * const sketch: FeedbackSketch<typeof params> = ({ decay }, { previousFrame, resolution }) => {
+ *   const dot = circle(screenAspectUV(resolution).sub(vec2(sin(clockTime), 0)), 0.05)
+ *   return max(previousFrame.mul(decay), vec4(dot))
+ * }
+ *
+ * // Optional: how the state is shown, defaults to the state itself
+ * export const display: FeedbackDisplay<typeof params> = ({ tint }, { state }) => state.r.mul(tint)
+ * ```
+ */
+export type FeedbackSketch<S extends SketchParams = SketchParams> = (
+  uniforms: SketchUniforms<S>,
+  frame: FeedbackFrame,
+) => NodeRepresentation
+
+export type FeedbackDisplay<S extends SketchParams = SketchParams> = (
+  uniforms: SketchUniforms<S>,
+  frame: FeedbackDisplayFrame,
+) => NodeRepresentation
+
+/**
+ * The shape of a module under `src/sketches/**`.
+ */
+export type SketchModule = {
+  default: (uniforms?: any, frame?: any) => any
+  /** Defaults to `node` */
+  kind?: SketchKind
+  /** Only used by scene and compute sketches */
+  camera?: SketchCamera
+  /** Only used by feedback sketches, see `FeedbackDisplay` */
+  display?: (uniforms?: any, frame?: any) => any
+  /** Only used by feedback sketches: how many times the state is stepped per frame. Defaults to 1 */
+  steps?: number
+  /** Optional emissive node, added to the color and written to the emissive MRT target (see `bloomEffect`) */
+  emissive?: (uniforms?: any) => any
+  meta?: SketchMeta
+  params?: SketchParams
+  /** Image and video inputs, passed to the default export next to the param uniforms (see `SketchInputs`) */
+  inputs?: SketchInputs
+  postProcessing?: SketchPostProcessing<any>
+}
+
+/**
+ * Whether a sketch module exports a color node, the default kind.
+ */
+export const isNodeSketch = (mod: SketchModule) => {
+  return (mod.kind ?? 'node') === 'node'
+}
+
+/**
+ * Whether a sketch module exports a React Three Fiber scene rather than a color node.
+ */
+export const isSceneSketch = (mod: SketchModule) => {
+  return mod.kind === 'scene'
+}
+
+/**
+ * Whether a sketch module exports a compute sketch (see `ComputeSketch`) rather than a color node.
+ */
+export const isComputeSketch = (mod: SketchModule) => {
+  return mod.kind === 'compute'
+}
+
+/**
+ * Whether a sketch module exports the step of a feedback sketch (see `FeedbackSketch`) rather than a color node.
+ */
+export const isFeedbackSketch = (mod: SketchModule) => {
+  return mod.kind === 'feedback'
+}
+
+/**
+ * Metadata with fallbacks applied, ready for display.
+ */
+export type ResolvedSketchMeta = Omit<SketchMeta, 'title' | 'description' | 'tags' | 'aspectRatio'> & {
+  title: string
+  description: string
+  tags: string[]
+  aspectRatio?: number
+}
+
+const DEFAULT_DESCRIPTION = 'A creative WebGPU sketch'
+
+/**
+ * Converts an aspect ratio declaration into a `width / height` number.
+ * Returns `undefined` for anything that doesn't describe a positive ratio.
+ */
+export const parseAspectRatio = (aspectRatio?: SketchMeta['aspectRatio']): number | undefined => {
+  if (aspectRatio == null) {
+    return undefined
+  }
+
+  if (typeof aspectRatio === 'number') {
+    return aspectRatio > 0 ? aspectRatio : undefined
+  }
+
+  const [w, h] = aspectRatio.split(':').map(Number)
+  return w > 0 && h > 0 ? w / h : undefined
+}
+
+/**
+ * Resolves a sketch's post-processing export against its param uniforms.
+ */
+export const resolveSketchPostProcessing = (
+  postProcessing: SketchModule['postProcessing'],
+  uniforms: SketchUniforms,
+): SketchPostProcessingConfig | undefined => {
+  return typeof postProcessing === 'function' ? postProcessing(uniforms) : postProcessing
+}
+
+/**
+ * Applies file-name based fallbacks to a sketch's metadata.
+ * @param relativePath - Path relative to `src/sketches`, without extension (e.g. `nested/dawn-1`)
+ * @param meta - The module's exported `meta`, if any
+ */
+export const resolveSketchMeta = (relativePath: string, meta?: SketchMeta): ResolvedSketchMeta => {
+  const name = relativePath.split('/').pop() || relativePath
+
+  return {
+    ...meta,
+    title: meta?.title || name,
+    description: meta?.description || DEFAULT_DESCRIPTION,
+    tags: meta?.tags ?? [],
+    aspectRatio: parseAspectRatio(meta?.aspectRatio),
+  }
+}
@@ -0,0 +1,256 @@
+import { uniform } from 'three/tsl'
+import * as THREE from 'three/webgpu'
+import type { UniformNode } from 'three/webgpu'
+
+type BaseParam = {
+  label?: string
+}
+
+export type NumberParam = BaseParam & {
+  type: 'number'
+  value: number
+  min?: number
+  max?: number
+  step?: number
+}
+
+/**
+ * A hex color string, e.g. `#ff8800`. The uniform is a `THREE.Color`, read as a `vec3`.
+ * Values are not color managed, so `#808080` arrives in the shader as `vec3(0.5)`.
+ */
+export type ColorParam = BaseParam & {
+  type: 'color'
+  value: string
+}
+
+export type Vec2Param = BaseParam & {
+  type: 'vec2'
+  value: [number, number]
+  min?: number
+  max?: number
+  step?: number
+}
+
+export type Vec3Param = BaseParam & {
+  type: 'vec3'
+  value: [number, number, number]
+  min?: number
+  max?: number
+  step?: number
+}
+
+/** The uniform is a `float` that is either `0` or `1` */
+export type BooleanParam = BaseParam & {
+  type: 'boolean'
+  value: boolean
+}
+
+/**
+ * The uniform is a `float` holding either the selected option's value (`Record<string, number>` options)
+ * or its index (`string[]` options).
+ */
+export type SelectParam = BaseParam & {
+  type: 'select'
+  value: string | number
+  options: string[] | Record<string, number>
+}
+
+export type SketchParam = NumberParam | ColorParam | Vec2Param | Vec3Param | BooleanParam | SelectParam
+
+/**
+ * A parameter schema a sketch module can export as `params`.
+ *
+ * @example
+ * ```ts
+ * export const params = {
+ *   scale: { type: 'number', value: 1, min: 0, max: 4 },
+ *   tint: { type: 'color', value: '#ff8800' },
+ * } satisfies SketchParams
+ *
+ * const sketch = Fn(({ scale, tint }: SketchUniforms<typeof params>) => tint.mul(scale))
+ * ```
+ */
+export type SketchParams = Record<string, SketchParam>
+
+export type SketchParamValue = SketchParam['value']
+
+export type SketchParamValues = Record<string, SketchParamValue>
+
+/**
+ * The uniform nodes a sketch receives, one per parameter.
+ */
+export type SketchUniforms<S extends SketchParams = SketchParams> = { [K in keyof S]: UniformNode<any> }
+
+const getSelectUniformValue = (param: SelectParam, value: string | number) => {
+  if (Array.isArray(param.options)) {
+    return Math.max(0, param.options.indexOf(String(value)))
+  }
+
+  return Number(value)
+}
+
+/**
+ * Creates a uniform node for a single parameter, initialised to `value` or the parameter's default.
+ */
+export const createParamUniform = (param: SketchParam, value: SketchParamValue = param.value): UniformNode<any> => {
+  switch (param.type) {
+    case 'number':
+      return uniform(Number(value))
+    case 'color':
+      return uniform(new THREE.Color().setStyle(String(value), THREE.LinearSRGBColorSpace))
+    case 'vec2':
+      return uniform(new THREE.Vector2().fromArray(value as number[]))
+    case 'vec3':
+      return uniform(new THREE.Vector3().fromArray(value as number[]))
+    case 'boolean':
+      return uniform(value ? 1 : 0)
+    case 'select':
+      return uniform(getSelectUniformValue(param, value as string | number))
+  }
+}
+
+/**
+ * Creates one uniform node per parameter in the schema.
+ * @param params - The parameter schema
+ * @param values - Optional values overriding the defaults, e.g. restored from the url
+ */
+export const createParamUniforms = <S extends SketchParams>(
+  params?: S,
+  values?: SketchParamValues,
+): SketchUniforms<S> => {
+  const uniforms = {} as SketchUniforms<S>
+
+  for (const key in params) {
+    uniforms[key] = createParamUniform(params[key], values?.[key])
+  }
+
+  return uniforms
+}
+
+/**
+ * Writes a parameter value into its uniform. Vector values may be arrays or `{ x, y, z }` objects.
+ */
+export const setParamUniform = (param: SketchParam, node: UniformNode<any>, value: any) => {
+  switch (param.type) {
+    case 'number':
+      node.value = Number(value)
+      break
+    case 'color':
+      node.value.setStyle(value, THREE.LinearSRGBColorSpace)
+      break
+    case 'vec2':
+      Array.isArray(value) ? node.value.fromArray(value) : node.value.set(value.x, value.y)
+      break
+    case 'vec3':
+      Array.isArray(value) ? node.value.fromArray(value) : node.value.set(value.x, value.y, value.z)
+      break
+    case 'boolean':
+      node.value = value ? 1 : 0
+      break
+    case 'select':
+      node.value = getSelectUniformValue(param, value)
+      break
+  }
+}
+
+/**
+ * Returns the default value of every parameter in the schema.
+ */
+export const getDefaultParamValues = (params?: SketchParams): SketchParamValues => {
+  const values: SketchParamValues = {}
+
+  for (const key in params) {
+    values[key] = params[key].value
+  }
+
+  return values
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const clampParam = (param: { min?: number; max?: number }, value: number) => {
+  return Math.min(param.max ?? Infinity, Math.max(param.min ?? -Infinity, value))
+}
+
+/**
+ * Validates a single untrusted value against its parameter. Numbers are clamped to the parameter's range.
+ * @returns The value, or `undefined` if it doesn't fit the parameter.
+ */
+export const sanitizeParamValue = (param: SketchParam, value: unknown): SketchParamValue | undefined => {
+  switch (param.type) {
+    case 'number':
+      return isFiniteNumber(value) ? clampParam(param, value) : undefined
+    case 'color':
+      return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value : undefined
+    case 'vec2':
+    case 'vec3': {
+      const length = param.type === 'vec2' ? 2 : 3
+      if (!Array.isArray(value) || value.length !== length || !value.every(isFiniteNumber)) {
+        return undefined
+      }
+
+      return value.map((v) => clampParam(param, v)) as [number, number] & [number, number, number]
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined
+    case 'select': {
+      const options = Array.isArray(param.options) ? param.options : Object.values(param.options)
+      return (options as unknown[]).includes(value) ? (value as string | number) : undefined
+    }
+  }
+}
+
+/**
+ * Keeps only the values that exist in the schema and fit their parameter.
+ */
+export const sanitizeParamValues = (params?: SketchParams, values?: Record<string, unknown>): SketchParamValues => {
+  const sanitized: SketchParamValues = {}
+
+  for (const key in params) {
+    const value = sanitizeParamValue(params[key], values?.[key])
+    if (value !== undefined) {
+      sanitized[key] = value
+    }
+  }
+
+  return sanitized
+}
+
+/**
+ * Converts a parameter schema into a Leva schema whose inputs write straight into the uniforms.
+ * Inputs are transient, so changing a value never re-renders or recompiles the sketch.
+ */
+export const toLevaSchema = <S extends SketchParams>(
+  params: S,
+  uniforms: SketchUniforms<S>,
+  options: {
+    values?: SketchParamValues
+    onChange?: (key: Extract<keyof S, string>, value: SketchParamValue) => void
+  } = {},
+) => {
+  const { values, onChange } = options
+  const schema: Record<string, any> = {}
+
+  for (const key in params) {
+    const param: SketchParam = params[key]
+    const { type, label, ...settings } = param
+    const value = values?.[key] ?? param.value
+
+    schema[key] = {
+      ...settings,
+      value,
+      label: label ?? key,
+      onChange: (value: any) => {
+        setParamUniform(param, uniforms[key], value)
+        onChange?.(key, value)
+      },
+    }
+
+    // Leva infers the input kind from the value; copy vectors so Leva never mutates the schema defaults
+    if (type === 'vec2' || type === 'vec3') {
+      schema[key].value = [...(value as number[])]
+    }
+  }
+
+  return schema
+}
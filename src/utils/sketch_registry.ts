@@ -0,0 +1,190 @@
+import manifest from 'virtual:sketch-manifest'
+import { resolveSketchMeta, type ResolvedSketchMeta, type SketchMeta, type SketchModule } from './sketch_module'
+
+/**
+ * A sketch discovered under `src/sketches/**`.
+ *
+ * - `path`: Path relative to `src/sketches`, without extension (e.g. `nested/dawn-1`)
+ * - `name`: Last segment of the path (e.g. `dawn-1`)
+ * - `url`: Route the sketch is served from (e.g. `/sketches/nested/dawn-1`)
+ * - `filePath`: Key of the module in the glob below
+ */
+export type SketchEntry = {
+  path: string
+  name: string
+  url: string
+  filePath: string
+}
+
+/**
+ * What the `sketchManifest` Vite plugin reads from every sketch's source at build time, keyed by sketch path.
+ *
+ * - `meta`: The sketch's `meta` export, `undefined` if it has none or it isn't a literal
+ * - `hash`: Fingerprint of the sketch's source and the local files it imports, see `getSketchHash`
+ */
+export type SketchManifest = Record<string, { meta?: SketchMeta; hash: string }>
+
+// Non-eager, so every sketch ends up in its own chunk and is only fetched when loaded
+// Scene sketches (see `SketchKind`) are `.tsx` files
+const modules = import.meta.glob<SketchModule>('../sketches/**/*.{ts,tsx}')
+
+const FILE_PREFIX = '../sketches/'
+const FILE_EXTENSIONS = ['.ts', '.tsx']
+const URL_PREFIX = '/sketches/'
+
+/**
+ * Converts a glob key into a sketch path.
+ * ../sketches/nested/dawn-1.ts -> nested/dawn-1
+ */
+export const filePathToSketchPath = (filePath: string) => {
+  return filePath.slice(FILE_PREFIX.length).replace(/\.tsx?$/, '')
+}
+
+/**
+ * Converts a sketch path into a glob key, with the extension of the file that exists (`.ts` if neither does).
+ * nested/dawn-1 -> ../sketches/nested/dawn-1.ts
+ */
+export const sketchPathToFilePath = (path: string) => {
+  const candidates = FILE_EXTENSIONS.map((extension) => `${FILE_PREFIX}${path}${extension}`)
+  return candidates.find((filePath) => filePath in modules) ?? candidates[0]
+}
+
+/**
+ * Converts a sketch path into its file path relative to the project root, e.g. for error messages.
+ * nested/dawn-1 -> src/sketches/nested/dawn-1.ts
+ */
+export const sketchPathToSourcePath = (path: string) => {
+  return `src/sketches/${sketchPathToFilePath(path).slice(FILE_PREFIX.length)}`
+}
+
+/**
+ * Converts a sketch path into the url it is routed at.
+ * nested/dawn-1 -> /sketches/nested/dawn-1
+ */
+export const sketchPathToUrl = (path: string) => {
+  return `${URL_PREFIX}${path}`
+}
+
+/**
+ * All sketches, sorted by path. Only file names are known up-front; modules are loaded on demand.
+ */
+export const sketches: SketchEntry[] = Object.keys(modules)
+  .map((filePath) => {
+    const path = filePathToSketchPath(filePath)
+
+    return {
+      path,
+      name: path.split('/').pop() || path,
+      url: sketchPathToUrl(path),
+      filePath,
+    }
+  })
+  .sort((a, b) => a.path.localeCompare(b.path))
+
+/**
+ * Returns the entry for a sketch path, or `undefined` if there is no such sketch.
+ */
+export const getSketch = (path: string): SketchEntry | undefined => {
+  return sketches.find((sketch) => sketch.path === path)
+}
+
+/**
+ * Returns the sketch `offset` places after `path` in path order, wrapping around at either end.
+ * From a path that isn't a sketch (e.g. the index route), `1` goes to the first sketch and `-1` to the last.
+ */
+export const getAdjacentSketch = (path: string | undefined, offset: number): SketchEntry | undefined => {
+  if (sketches.length === 0) {
+    return undefined
+  }
+
+  const index = sketches.findIndex((sketch) => sketch.path === path)
+  const from = index === -1 ? (offset > 0 ? -1 : 0) : index
+
+  return sketches[(((from + offset) % sketches.length) + sketches.length) % sketches.length]
+}
+
+const loaded = new Map<string, Promise<SketchModule>>()
+
+/**
+ * Lazily loads a sketch module. Repeated calls share the same request.
+ * @returns The module, or `undefined` if there is no sketch at that path.
+ */
+export const loadSketch = (path: string): Promise<SketchModule> | undefined => {
+  const filePath = sketchPathToFilePath(path)
+  const importer = modules[filePath]
+
+  if (!importer) {
+    return undefined
+  }
+
+  let promise = loaded.get(filePath)
+  if (!promise) {
+    promise = importer()
+    // Allow a retry if the chunk failed to load
+    promise.catch(() => loaded.delete(filePath))
+    loaded.set(filePath, promise)
+  }
+
+  return promise
+}
+
+type SketchUpdateListener = (path: string) => void
+
+const updateListeners = new Set<SketchUpdateListener>()
+const revisions = new Map<string, number>()
+const metas = new Map(Object.entries(manifest).map(([path, { meta }]) => [path, meta]))
+const hashes = new Map(Object.entries(manifest).map(([path, { hash }]) => [path, hash]))
+
+if (import.meta.hot) {
+  // Sent by the `sketchManifest` Vite plugin ahead of the hot updates for the same change
+  import.meta.hot.on('fragments:sketch-hashes', (changed: Record<string, string>) => {
+    Object.entries(changed).forEach(([path, hash]) => hashes.set(path, hash))
+  })
+}
+
+/**
+ * Replaces a sketch module after a hot update and notifies `onSketchUpdate` listeners.
+ * Called from the code the `sketchHotUpdate` Vite plugin appends to every sketch in development.
+ */
+export const updateSketch = (path: string, mod: SketchModule) => {
+  loaded.set(sketchPathToFilePath(path), Promise.resolve(mod))
+  revisions.set(path, getSketchRevision(path) + 1)
+  metas.set(path, mod.meta)
+  updateListeners.forEach((listener) => listener(path))
+}
+
+/**
+ * Number of hot updates a sketch went through, e.g. to remount components that hold on to its uniforms.
+ */
+export const getSketchRevision = (path: string) => {
+  return revisions.get(path) ?? 0
+}
+
+/**
+ * Subscribes to hot updates of sketch modules.
+ * @returns A function that unsubscribes
+ */
+export const onSketchUpdate = (listener: SketchUpdateListener) => {
+  updateListeners.add(listener)
+
+  return () => {
+    updateListeners.delete(listener)
+  }
+}
+
+/**
+ * Fingerprint of a sketch's source and every local file it imports, e.g. to cache things rendered from it. Changes
+ * when the sketch or one of its helpers is edited, including through hot updates.
+ * @returns The hash, or `undefined` if there is no sketch at that path.
+ */
+export const getSketchHash = (path: string): string | undefined => {
+  return hashes.get(path)
+}
+
+/**
+ * Returns a sketch's metadata with file-name fallbacks, without loading its module.
+ * Read from the manifest at build time, then kept up to date by hot updates.
+ */
+export const getSketchMeta = (path: string): ResolvedSketchMeta => {
+  return resolveSketchMeta(path, metas.get(path))
+}
@@ -0,0 +1,248 @@
+import type { RendererBackend } from './renderer_backend'
+
+/**
+ * Search params of the `/sketches/$` route.
+ *
+ * - `params`: Parameter values that differ from the sketch's defaults
+ * - `seed`: Value of the `sketchSeed` uniform
+ * - `t`: Clock time in seconds. Only present when the clock is paused; restoring it opens the sketch paused.
+ * - `backend`: Forces a renderer backend, e.g. `?backend=webgl` to check a sketch without WebGPU
+ * - `debug`: Shows the stats and active backend overlay
+ */
+export type SketchSearch = {
+  params?: Record<string, unknown>
+  seed?: number
+  t?: number
+  backend?: Exclude<RendererBackend, 'auto'>
+  debug?: boolean
+}
+
+/**
+ * Search params of the `/embed/$` route: those of `/sketches/$`, plus
+ *
+ * - `transparent`: Clears the canvas to transparent, so the host page shows through where the sketch's alpha is below 1
+ * - `paused`: Starts with the clock paused (at `t`, or 0)
+ */
+export type EmbedSearch = SketchSearch & {
+  transparent?: boolean
+  paused?: boolean
+}
+
+export type CompareMode = 'split' | 'wipe' | 'difference'
+
+/**
+ * Search params of the `/compare` route.
+ *
+ * - `a` / `b`: Paths of the sketches on the left and right. `b` defaults to `a`, to compare params of one sketch
+ * - `aParams` / `bParams`: Parameter values of each side that differ from the defaults
+ * - `mode`: `split` (fixed line in the middle), `wipe` (draggable line) or `difference`
+ * - `position`: Position of the wipe line, from 0 (left) to 1 (right)
+ * - `seed`, `t`: As on `/sketches/$`. Both sides share the seed and the clock
+ */
+export type CompareSearch = {
+  a?: string
+  b?: string
+  aParams?: Record<string, unknown>
+  bParams?: Record<string, unknown>
+  mode?: CompareMode
+  position?: number
+  seed?: number
+  t?: number
+}
+
+/**
+ * Search params of the `/playlist` route.
+ *
+ * - `items`: Sketch paths with the seconds each one shows, e.g. `flare-1:10,nested/dawn-1:8` (see `parsePlaylistItems`)
+ * - `transition`: A transition name, or several separated by commas to take turns (see `parseTransitions`)
+ * - `transitionDuration`: Seconds each transition takes
+ * - `kiosk`: Hides every overlay, e.g. for installations
+ * - `seed`, `backend`, `debug`: As on `/sketches/$`
+ */
+export type PlaylistSearch = Omit<SketchSearch, 'params' | 't'> & {
+  items?: string
+  transition?: string
+  transitionDuration?: number
+  kiosk?: boolean
+}
+
+const toFiniteNumber = (value: unknown) => {
+  const number = typeof value === 'string' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined
+}
+
+const toParamValues = (value: unknown) => {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined
+}
+
+// Accepts the boolean the router parses `?debug=true` into, as well as the string `'true'`
+const isTrue = (value: unknown) => value === true || value === 'true'
+
+/**
+ * Validates raw search params, dropping anything malformed. Parameter values are only shape-checked here;
+ * they are validated against the sketch's schema once it has loaded (see `sanitizeParamValues`).
+ */
+export const validateSketchSearch = (search: Record<string, unknown>): SketchSearch => {
+  const result: SketchSearch = {}
+
+  const params = toParamValues(search.params)
+  if (params) {
+    result.params = params
+  }
+
+  const seed = toFiniteNumber(search.seed)
+  if (seed !== undefined) {
+    result.seed = seed
+  }
+
+  const t = toFiniteNumber(search.t)
+  if (t !== undefined && t >= 0) {
+    result.t = t
+  }
+
+  if (search.backend === 'webgpu' || search.backend === 'webgl') {
+    result.backend = search.backend
+  }
+
+  if (isTrue(search.debug)) {
+    result.debug = true
+  }
+
+  return result
+}
+
+/**
+ * Validates raw search params of the `/embed/$` route, see `validateSketchSearch`.
+ */
+export const validateEmbedSearch = (search: Record<string, unknown>): EmbedSearch => {
+  const result: EmbedSearch = validateSketchSearch(search)
+
+  if (isTrue(search.transparent)) {
+    result.transparent = true
+  }
+
+  if (isTrue(search.paused)) {
+    result.paused = true
+  }
+
+  return result
+}
+
+/**
+ * Validates raw search params of the `/compare` route, dropping anything malformed.
+ */
+export const validateCompareSearch = (search: Record<string, unknown>): CompareSearch => {
+  // Shared with `/sketches/$`; `params` has no meaning here, as every side has its own
+  const { seed, t } = validateSketchSearch(search)
+  const result: CompareSearch = {}
+
+  if (seed !== undefined) {
+    result.seed = seed
+  }
+
+  if (t !== undefined) {
+    result.t = t
+  }
+
+  if (typeof search.a === 'string' && search.a) {
+    result.a = search.a
+  }
+
+  if (typeof search.b === 'string' && search.b) {
+    result.b = search.b
+  }
+
+  const aParams = toParamValues(search.aParams)
+  if (aParams) {
+    result.aParams = aParams
+  }
+
+  const bParams = toParamValues(search.bParams)
+  if (bParams) {
+    result.bParams = bParams
+  }
+
+  if (search.mode === 'split' || search.mode === 'wipe' || search.mode === 'difference') {
+    result.mode = search.mode
+  }
+
+  const position = toFiniteNumber(search.position)
+  if (position !== undefined && position >= 0 && position <= 1) {
+    result.position = position
+  }
+
+  return result
+}
+
+/**
+ * Validates raw search params of the `/playlist` route. The items and transitions are parsed by the route.
+ */
+export const validatePlaylistSearch = (search: Record<string, unknown>): PlaylistSearch => {
+  // Every sketch of the playlist starts from its defaults and the clock always runs, so `params` and `t` are left out
+  const { seed, backend, debug } = validateSketchSearch(search)
+  const result: PlaylistSearch = {}
+
+  if (seed !== undefined) {
+    result.seed = seed
+  }
+
+  if (backend) {
+    result.backend = backend
+  }
+
+  if (debug) {
+    result.debug = true
+  }
+
+  if (typeof search.items === 'string' && search.items) {
+    result.items = search.items
+  }
+
+  if (typeof search.transition === 'string' && search.transition) {
+    result.transition = search.transition
+  }
+
+  const transitionDuration = toFiniteNumber(search.transitionDuration)
+  if (transitionDuration !== undefined && transitionDuration >= 0) {
+    result.transitionDuration = transitionDuration
+  }
+
+  if (isTrue(search.kiosk)) {
+    result.kiosk = true
+  }
+
+  return result
+}
+
+/**
+ * Builds the search params describing the current state of a sketch.
+ * @param defaults - Default parameter values; only values that differ from them are included
+ * @param values - Current parameter values
+ * @param seed - Current seed, omitted when `0`
+ * @param time - Clock time, pass only when the clock is paused
+ */
+export const buildSketchSearch = (
+  defaults: Record<string, unknown>,
+  values: Record<string, unknown>,
+  seed: number,
+  time?: number,
+): SketchSearch => {
+  const search: SketchSearch = {}
+
+  const changed = Object.fromEntries(
+    Object.entries(values).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key])),
+  )
+  if (Object.keys(changed).length > 0) {
+    search.params = changed
+  }
+
+  if (seed !== 0) {
+    search.seed = seed
+  }
+
+  if (time !== undefined) {
+    search.t = Math.round(time * 1000) / 1000
+  }
+
+  return search
+}
@@ -0,0 +1,138 @@
+import type { WebGPURenderer } from 'three/webgpu'
+import { renderStill } from './export_still'
+import { createRenderer } from './renderer_backend'
+import { diagnoseSketch } from './shader_diagnostics'
+import { createInputSlots, disposeInputSlots, getInputNodes, loadInputs } from './sketch_inputs'
+import { isNodeSketch, resolveSketchMeta } from './sketch_module'
+import { createParamUniforms } from './sketch_params'
+import { getSketchHash, loadSketch, sketchPathToSourcePath } from './sketch_registry'
+import { readThumbnail, writeThumbnail } from './thumbnail_cache'
+
+/** Width of a thumbnail in pixels. The height follows the sketch's aspect ratio */
+export const THUMBNAIL_WIDTH = 320
+/** `clockTime` thumbnails are rendered at, so they don't depend on when they were taken */
+export const THUMBNAIL_TIME = 2
+
+// Used for sketches without a preferred aspect ratio
+const DEFAULT_ASPECT_RATIO = 16 / 9
+
+let renderer: Promise<WebGPURenderer> | undefined
+
+/**
+ * One offscreen renderer shared by every thumbnail, created on first use and kept for the session.
+ */
+const getThumbnailRenderer = () => {
+  if (!renderer) {
+    renderer = createRenderer({ antialias: true })
+    renderer.catch(() => (renderer = undefined))
+  }
+
+  return renderer
+}
+
+// Renders run one after another, so opening the gallery doesn't compile every sketch at once
+let queue: Promise<unknown> = Promise.resolve()
+
+const enqueue = <T>(task: () => Promise<T>) => {
+  const result = queue.then(task)
+  queue = result.catch(() => {})
+  return result
+}
+
+/**
+ * Renders a sketch's color node with its default params and seed 0 at `THUMBNAIL_TIME`. Post-processing is skipped.
+ * Inputs show their defaults, videos their first frame.
+ *
+ * @throws When the sketch fails to build or compile
+ */
+const renderThumbnail = async (path: string): Promise<Blob> => {
+  const mod = await loadSketch(path)
+  if (!mod) {
+    throw new Error(`There is no sketch at ${sketchPathToSourcePath(path)}`)
+  }
+
+  if (!isNodeSketch(mod)) {
+    throw new Error(`Only sketches that export a color node have thumbnails, not ${mod.kind} sketches`)
+  }
+
+  const { aspectRatio = DEFAULT_ASPECT_RATIO } = resolveSketchMeta(path, mod.meta)
+  const slots = createInputSlots(mod.inputs)
+  const uniforms = { ...createParamUniforms(mod.params), ...getInputNodes(slots) }
+  const colorNode = mod.default(uniforms)
+  const emissiveNode = mod.emissive?.(uniforms)
+
+  const renderer = await getThumbnailRenderer()
+
+  let canvas: HTMLCanvasElement
+  try {
+    // A shader that doesn't compile renders black instead of throwing, which shouldn't end up in the cache
+    const diagnostic = await diagnoseSketch(renderer, { colorNode, emissiveNode })
+    if (diagnostic) {
+      throw new Error(diagnostic.message)
+    }
+
+    await loadInputs(slots)
+    canvas = await renderStill(renderer, {
+      width: THUMBNAIL_WIDTH,
+      height: Math.round(THUMBNAIL_WIDTH / aspectRatio),
+      colorNode,
+      emissiveNode,
+      time: THUMBNAIL_TIME,
+      seed: 0,
+    })
+  } finally {
+    disposeInputSlots(slots)
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode thumbnail'))), 'image/webp')
+  })
+}
+
+const thumbnails = new Map<string, { hash: string; url: Promise<string> }>()
+
+/**
+ * Returns an object url for a still preview of a sketch, rendering it if needed.
+ *
+ * Thumbnails are cached in IndexedDB against the hash of the sketch's sources (see `getSketchHash`), so they are only
+ * rendered again once the sketch or a helper it imports changes, e.g. after a hot update in development.
+ */
+export const getSketchThumbnail = async (path: string): Promise<string> => {
+  const hash = getSketchHash(path)
+  if (!hash) {
+    throw new Error(`There is no sketch at ${sketchPathToSourcePath(path)}`)
+  }
+
+  const current = thumbnails.get(path)
+  if (current?.hash === hash) {
+    return current.url
+  }
+
+  const url = (async () => {
+    // A blocked or unavailable IndexedDB only costs a render
+    const cached = await readThumbnail(path, hash).catch(() => undefined)
+    if (cached) {
+      return URL.createObjectURL(cached)
+    }
+
+    const blob = await enqueue(() => renderThumbnail(path))
+
+    // Don't file a render under this hash if the sketch was hot-updated meanwhile
+    if (getSketchHash(path) === hash) {
+      writeThumbnail(path, hash, blob).catch((error) => console.warn('Failed to cache thumbnail:', path, error))
+    }
+
+    return URL.createObjectURL(blob)
+  })()
+
+  thumbnails.set(path, { hash, url })
+  url.catch(() => {
+    // Try again next time
+    if (thumbnails.get(path)?.url === url) {
+      thumbnails.delete(path)
+    }
+  })
+  current?.url.then((previous) => URL.revokeObjectURL(previous)).catch(() => {})
+
+  return url
+}
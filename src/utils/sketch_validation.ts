@@ -0,0 +1,311 @@
+import * as THREE from 'three/webgpu'
+import { getConsoleFunction, setConsoleFunction } from 'three/webgpu'
+import { createPostProcessingPipeline } from '@/tsl/post_processing/pipeline'
+import { createComputeResources, disposeComputeResources } from './compute_sketch'
+import { createFeedbackResources, disposeFeedbackResources } from './feedback_sketch'
+import { createSketchMaterial, type ShaderCode, type ShaderLanguage } from './shader_diagnostics'
+import { createInputSlots, getInputNodes } from './sketch_inputs'
+import {
+  isComputeSketch,
+  isFeedbackSketch,
+  isSceneSketch,
+  resolveSketchPostProcessing,
+  type SketchModule,
+} from './sketch_module'
+import { createParamUniforms } from './sketch_params'
+import { loadSketch, sketchPathToSourcePath, sketches } from './sketch_registry'
+
+/**
+ * Something that went wrong while generating one material of a sketch.
+ *
+ * - `language`: Not set when the sketch failed before code generation, e.g. when its module doesn't load
+ * - `target`: `Module`, `Inputs`, `Sketch`, or the name of a post-processing pass
+ */
+export type SketchValidationIssue = {
+  language?: ShaderLanguage
+  target: string
+  message: string
+}
+
+export type SketchValidationResult = {
+  path: string
+  passed: boolean
+  errors: SketchValidationIssue[]
+  warnings: SketchValidationIssue[]
+}
+
+export type SketchValidationOptions = {
+  /** Languages to generate. Defaults to both */
+  languages?: ShaderLanguage[]
+}
+
+const DEFAULT_LANGUAGES: ShaderLanguage[] = ['WGSL', 'GLSL']
+
+// Code generation never touches the canvas, the renderer only needs one to be constructed
+const HEADLESS_CANVAS = { style: {} } as HTMLCanvasElement
+
+/**
+ * A renderer that is never initialized: it can build node graphs into WGSL or GLSL, but not render.
+ * It holds no GPU resources, so it is simply dropped after use (`dispose()` would initialize it).
+ */
+const createHeadlessRenderer = (language: ShaderLanguage) => {
+  const renderer = new THREE.WebGPURenderer({ canvas: HEADLESS_CANVAS, forceWebGL: language === 'GLSL' })
+
+  // Without a device there are no optional features (`float32-filterable`, `subgroups`, ...), so code is generated
+  // for the baseline every device supports
+  renderer.hasFeature = () => false
+
+  return renderer
+}
+
+/**
+ * Runs `callback`, collecting the errors and warnings three.js logs meanwhile (e.g. `THREE.TSL: ...`).
+ */
+const captureThreeLogs = <T>(callback: () => T) => {
+  const previous = getConsoleFunction()
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  setConsoleFunction((type: string, message: string, ...params: unknown[]) => {
+    const text = [message, ...params.map(String)].join(' ')
+    if (type === 'error') {
+      errors.push(text)
+    } else if (type === 'warn') {
+      warnings.push(text)
+    }
+  })
+
+  try {
+    return { value: callback(), errors, warnings }
+  } finally {
+    setConsoleFunction(previous)
+  }
+}
+
+/**
+ * Builds `material` the way the renderer does before a draw, without a GPU.
+ */
+const generateShaders = (renderer: THREE.WebGPURenderer, material: THREE.Material): ShaderCode => {
+  const geometry = new THREE.PlaneGeometry(1, 1)
+  const mesh = new THREE.Mesh(geometry, material)
+  const scene = new THREE.Scene()
+  scene.add(mesh)
+
+  try {
+    const builder = (renderer.backend as any).createNodeBuilder(mesh, renderer)
+    builder.scene = scene
+    builder.material = material
+    builder.camera = new THREE.OrthographicCamera(-0.5, 0.5, 0.5, -0.5, 0, 2)
+    builder.context.material = material
+    builder.build()
+
+    return { vertexShader: builder.vertexShader, fragmentShader: builder.fragmentShader }
+  } finally {
+    geometry.dispose()
+  }
+}
+
+/**
+ * Builds a compute kernel the way the renderer does before dispatching it, without a GPU.
+ */
+const generateComputeShader = (renderer: THREE.WebGPURenderer, computeNode: THREE.ComputeNode): string => {
+  const builder = (renderer.backend as any).createNodeBuilder(computeNode, renderer)
+  builder.build()
+
+  return builder.computeShader
+}
+
+const toMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Builds a loaded sketch module (its color node, emissive node and every enabled post-processing pass) into each
+ * language and reports what failed. Parameters use their default values.
+ * Compute sketches have their kernels and the material of their instances built, feedback sketches their step and
+ * display materials.
+ * Scene sketches only have their post-processing built, as their materials are created by React components.
+ */
+export const validateSketchModule = (
+  path: string,
+  mod: SketchModule,
+  { languages = DEFAULT_LANGUAGES }: SketchValidationOptions = {},
+): SketchValidationResult => {
+  const errors: SketchValidationIssue[] = []
+  const warnings: SketchValidationIssue[] = []
+
+  if (isSceneSketch(mod)) {
+    warnings.push({ target: 'Sketch', message: 'Scene sketches are only compiled in the app' })
+  }
+
+  for (const name of Object.keys(mod.inputs ?? {})) {
+    if (mod.params && name in mod.params) {
+      errors.push({ target: 'Inputs', message: `Input "${name}" has the name of a param, which it would replace` })
+    }
+  }
+
+  for (const language of languages) {
+    const renderer = createHeadlessRenderer(language)
+
+    const check = (target: string, callback: () => void) => {
+      const logs = captureThreeLogs(() => {
+        try {
+          callback()
+        } catch (error) {
+          errors.push({ language, target, message: toMessage(error) })
+        }
+      })
+
+      errors.push(...logs.errors.map((message) => ({ language, target, message })))
+      warnings.push(...logs.warnings.map((message) => ({ language, target, message })))
+    }
+
+    // Node graphs are rebuilt per language, as building caches state on the nodes. Inputs show their placeholder
+    const uniforms = { ...createParamUniforms(mod.params), ...getInputNodes(createInputSlots(mod.inputs)) }
+
+    check('Sketch', () => {
+      if (isSceneSketch(mod)) {
+        return
+      }
+
+      if (isComputeSketch(mod)) {
+        const resources = createComputeResources(mod.default(uniforms))
+        try {
+          for (const kernel of [resources.init, resources.update]) {
+            if (kernel) {
+              generateComputeShader(renderer, kernel)
+            }
+          }
+          generateShaders(renderer, resources.material)
+        } finally {
+          disposeComputeResources(resources)
+        }
+        return
+      }
+
+      if (isFeedbackSketch(mod)) {
+        const resources = createFeedbackResources(mod.default, mod.display, uniforms)
+        try {
+          generateShaders(renderer, resources.step)
+          generateShaders(renderer, resources.display)
+        } finally {
+          disposeFeedbackResources(resources)
+        }
+        return
+      }
+
+      const material = createSketchMaterial({
+        colorNode: mod.default(uniforms),
+        emissiveNode: mod.emissive?.(uniforms),
+      })
+      try {
+        generateShaders(renderer, material)
+      } finally {
+        material.dispose()
+      }
+    })
+
+    check('Post-processing', () => {
+      const post = resolveSketchPostProcessing(mod.postProcessing, uniforms)
+      if (!post) {
+        return
+      }
+
+      const scene = new THREE.Scene()
+      const camera = new THREE.OrthographicCamera(-0.5, 0.5, 0.5, -0.5, 0, 2)
+      const pipeline = createPostProcessingPipeline(renderer, scene, camera, post.effects, post.wrap)
+
+      try {
+        for (const { name, node } of pipeline.passes) {
+          check(name, () => {
+            const material = new THREE.NodeMaterial()
+            material.fragmentNode = node
+            try {
+              generateShaders(renderer, material)
+            } finally {
+              material.dispose()
+            }
+          })
+        }
+      } finally {
+        pipeline.dispose()
+      }
+    })
+  }
+
+  return { path, passed: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Loads the sketch at `path` (e.g. `nested/dawn-1`) and validates it, see `validateSketchModule`.
+ */
+export const validateSketch = async (
+  path: string,
+  options?: SketchValidationOptions,
+): Promise<SketchValidationResult> => {
+  let mod: SketchModule | undefined
+  try {
+    mod = await loadSketch(path)
+  } catch (error) {
+    const message = `Failed to load: ${toMessage(error)}`
+    return { path, passed: false, errors: [{ target: 'Module', message }], warnings: [] }
+  }
+
+  if (!mod) {
+    throw new Error(`There is no sketch at ${sketchPathToSourcePath(path)}`)
+  }
+
+  return validateSketchModule(path, mod, options)
+}
+
+/**
+ * Validates every sketch under `src/sketches/**`, one after another.
+ *
+ * @param filter - Only validates sketches whose path contains this string
+ *
+ * @example
+ * ```ts
+ * const results = await validateSketches()
+ * console.log(formatValidationReport(results))
+ * ```
+ */
+export const validateSketches = async (
+  filter?: string,
+  options?: SketchValidationOptions,
+): Promise<SketchValidationResult[]> => {
+  const results: SketchValidationResult[] = []
+
+  for (const { path } of sketches) {
+    if (!filter || path.includes(filter)) {
+      results.push(await validateSketch(path, options))
+    }
+  }
+
+  return results
+}
+
+const formatTarget = (language: ShaderLanguage | undefined, target: string) => {
+  return language ? `${language} · ${target}` : target
+}
+
+/**
+ * Formats results as a plain-text report, one line per sketch followed by its issues.
+ */
+export const formatValidationReport = (results: SketchValidationResult[]) => {
+  const lines: string[] = []
+
+  for (const { path, passed, errors, warnings } of results) {
+    lines.push(`${passed ? 'PASS' : 'FAIL'} ${path}`)
+
+    for (const { language, target, message } of errors) {
+      lines.push(`  error   ${formatTarget(language, target)}: ${message}`)
+    }
+
+    for (const { language, target, message } of warnings) {
+      lines.push(`  warning ${formatTarget(language, target)}: ${message}`)
+    }
+  }
+
+  const failed = results.filter(({ passed }) => !passed).length
+  lines.push('', `${results.length - failed} passed, ${failed} failed`)
+
+  return lines.join('\n')
+}
@@ -0,0 +1,55 @@
+const DATABASE_NAME = 'fragments-boilerplate'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'thumbnails'
+
+/**
+ * One thumbnail per sketch. `hash` is the `getSketchHash` of the sources it was rendered from.
+ */
+type CachedThumbnail = {
+  path: string
+  hash: string
+  blob: Blob
+}
+
+let database: Promise<IDBDatabase> | undefined
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'path' })
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry, e.g. after the user unblocked storage
+    database.catch(() => (database = undefined))
+  }
+
+  return database
+}
+
+const runRequest = async <T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const request = callback(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Returns the cached thumbnail of a sketch if it was rendered from the source with this `hash`.
+ */
+export const readThumbnail = async (path: string, hash: string): Promise<Blob | undefined> => {
+  const entry = await runRequest<CachedThumbnail | undefined>('readonly', (store) => store.get(path))
+  return entry?.hash === hash ? entry.blob : undefined
+}
+
+/**
+ * Stores the thumbnail of a sketch, replacing the one of any previous version.
+ */
+export const writeThumbnail = async (path: string, hash: string, blob: Blob) => {
+  const entry: CachedThumbnail = { path, hash, blob }
+  await runRequest('readwrite', (store) => store.put(entry))
+}
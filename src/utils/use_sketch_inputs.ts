@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useClockStore } from '@/stores/clock_store'
+import {
+  createInputSlots,
+  disposeInputSource,
+  getInputNodes,
+  loadInputSource,
+  setInputSource,
+  startSketchInputs,
+  syncInputVideos,
+  type SketchInputs,
+  type SketchInputSlots,
+} from './sketch_inputs'
+
+/** Name of the source each input shows, by input */
+export type SketchInputSources = Record<string, string | undefined>
+
+const getSources = (slots: SketchInputSlots): SketchInputSources => {
+  return Object.fromEntries(Object.entries(slots).map(([name, slot]) => [name, slot.source?.name]))
+}
+
+/**
+ * Creates the texture nodes of a sketch's `inputs` and loads them, defaults first.
+ * The nodes are kept while the declared inputs stay the same, so hot updates don't reload them. Files passed to
+ * `replace` are also reloaded into new nodes when they change, until `key` (e.g. the sketch path) changes.
+ */
+export const useSketchInputs = (inputs: SketchInputs | undefined, key?: string) => {
+  // Hot updates re-create the `inputs` object even when nothing changed in it
+  const signature = JSON.stringify(inputs ?? {})
+  const slots = useMemo(() => createInputSlots(inputs), [signature, key])
+  const nodes = useMemo(() => getInputNodes(slots), [slots])
+  const [sources, setSources] = useState<SketchInputSources>({})
+  const files = useRef<{ key?: string; files: Record<string, File> }>({ key, files: {} })
+
+  if (files.current.key !== key) {
+    files.current = { key, files: {} }
+  }
+
+  // A ref, so that `replace` never sets a source into slots that were already disposed
+  const current = useRef<SketchInputSlots | null>(null)
+
+  useEffect(() => {
+    current.current = slots
+    setSources(getSources(slots))
+    const stop = startSketchInputs(slots, files.current.files, () => setSources(getSources(slots)))
+
+    return () => {
+      current.current = null
+      stop()
+    }
+  }, [slots])
+
+  /**
+   * Replaces the input `name` with `file`. Rejects if the file doesn't load.
+   */
+  const replace = useCallback(
+    async (name: string, file: File) => {
+      const slot = slots[name]
+      if (!slot) {
+        return
+      }
+
+      const source = await loadInputSource(slot.input.type, file)
+      if (current.current !== slots) {
+        disposeInputSource(source)
+        return
+      }
+
+      setInputSource(slot, source)
+      syncInputVideos(slots, useClockStore.getState())
+      files.current.files[name] = file
+      setSources(getSources(slots))
+    },
+    [slots],
+  )
+
+  return { nodes, slots, sources, replace }
+}
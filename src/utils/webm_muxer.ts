@@ -0,0 +1,151 @@
+/**
+ * A minimal WebM (Matroska) muxer for a single video track encoded with WebCodecs.
+ * Everything is kept in memory and written out once, so element sizes are always known.
+ */
+
+type Parts = Uint8Array[]
+
+export type WebMCodec = 'V_VP8' | 'V_VP9'
+
+export type WebMMuxerOptions = {
+  width: number
+  height: number
+  codec: WebMCodec
+}
+
+export type WebMMuxer = {
+  addChunk: (chunk: EncodedVideoChunk) => void
+  /** Builds the file. `duration` is in seconds */
+  finalize: (duration: number) => Blob
+}
+
+const textEncoder = new TextEncoder()
+
+// Clusters are split before their int16 relative block timecodes overflow
+const MAX_CLUSTER_DURATION = 30000
+
+const partsLength = (parts: Parts) => parts.reduce((length, part) => length + part.length, 0)
+
+const uintBytes = (value: number) => {
+  const bytes: number[] = []
+  do {
+    bytes.unshift(value % 256)
+    value = Math.floor(value / 256)
+  } while (value > 0)
+
+  return new Uint8Array(bytes)
+}
+
+/**
+ * Encodes an element size as an EBML variable-length integer.
+ */
+const vint = (value: number) => {
+  let length = 1
+  while (value >= 2 ** (7 * length) - 1) {
+    length++
+  }
+
+  const bytes = new Uint8Array(length)
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  bytes[0] |= 1 << (8 - length)
+
+  return bytes
+}
+
+const element = (id: number, children: Parts): Parts => [uintBytes(id), vint(partsLength(children)), ...children]
+
+const uintElement = (id: number, value: number) => element(id, [uintBytes(value)])
+
+const stringElement = (id: number, value: string) => element(id, [textEncoder.encode(value)])
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setFloat64(0, value)
+
+  return element(id, [bytes])
+}
+
+const simpleBlock = (timecode: number, keyFrame: boolean, data: Uint8Array) => {
+  const header = new Uint8Array(4)
+  const view = new DataView(header.buffer)
+  header[0] = 0x81 // track number 1 as a vint
+  view.setInt16(1, timecode)
+  header[3] = keyFrame ? 0x80 : 0
+
+  return element(0xa3, [header, data])
+}
+
+type Block = { timestamp: number; keyFrame: boolean; data: Uint8Array }
+
+/**
+ * Creates a muxer. Feed it the chunks of a `VideoEncoder`'s `output` callback, in order.
+ */
+export const createWebMMuxer = ({ width, height, codec }: WebMMuxerOptions): WebMMuxer => {
+  const blocks: Block[] = []
+
+  return {
+    addChunk: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+
+      blocks.push({ timestamp: Math.round(chunk.timestamp / 1000), keyFrame: chunk.type === 'key', data })
+    },
+    finalize: (duration) => {
+      const header = element(0x1a45dfa3, [
+        ...uintElement(0x4286, 1), // EBMLVersion
+        ...uintElement(0x42f7, 1), // EBMLReadVersion
+        ...uintElement(0x42f2, 4), // EBMLMaxIDLength
+        ...uintElement(0x42f3, 8), // EBMLMaxSizeLength
+        ...stringElement(0x4282, 'webm'), // DocType
+        ...uintElement(0x4287, 4), // DocTypeVersion
+        ...uintElement(0x4285, 2), // DocTypeReadVersion
+      ])
+
+      const info = element(0x1549a966, [
+        ...uintElement(0x2ad7b1, 1000000), // TimestampScale: milliseconds
+        ...stringElement(0x4d80, 'fragments-boilerplate'), // MuxingApp
+        ...stringElement(0x5741, 'fragments-boilerplate'), // WritingApp
+        ...floatElement(0x4489, duration * 1000), // Duration
+      ])
+
+      const tracks = element(0x1654ae6b, [
+        ...element(0xae, [
+          ...uintElement(0xd7, 1), // TrackNumber
+          ...uintElement(0x73c5, 1), // TrackUID
+          ...stringElement(0x86, codec), // CodecID
+          ...uintElement(0x83, 1), // TrackType: video
+          ...element(0xe0, [...uintElement(0xb0, width), ...uintElement(0xba, height)]), // Video
+        ]),
+      ])
+
+      const clusters: Parts = []
+      let clusterStart = 0
+      let clusterBlocks: Parts = []
+
+      const flushCluster = () => {
+        if (clusterBlocks.length) {
+          clusters.push(...element(0x1f43b675, [...uintElement(0xe7, clusterStart), ...clusterBlocks]))
+        }
+        clusterBlocks = []
+      }
+
+      for (const { timestamp, keyFrame, data } of blocks) {
+        // Start clusters on key frames where possible, so players can seek
+        if (!clusterBlocks.length || keyFrame || timestamp - clusterStart > MAX_CLUSTER_DURATION) {
+          flushCluster()
+          clusterStart = timestamp
+        }
+
+        clusterBlocks.push(...simpleBlock(timestamp - clusterStart, keyFrame, data))
+      }
+      flushCluster()
+
+      const segment = element(0x18538067, [...info, ...tracks, ...clusters])
+
+      return new Blob([...header, ...segment] as BlobPart[], { type: 'video/webm' })
+    },
+  }
+}
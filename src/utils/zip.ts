@@ -0,0 +1,96 @@
+export type ZipEntry = {
+  /** Path inside the archive, e.g. `frames/00001.png` */
+  name: string
+  data: Uint8Array
+}
+
+let crcTable: Uint32Array | undefined
+
+const getCrcTable = () => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  return crcTable
+}
+
+/**
+ * CRC-32 as used by zip and png.
+ */
+export const crc32 = (data: Uint8Array) => {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Packs files into an uncompressed (stored) zip archive. Meant for already compressed data such as PNGs.
+ * Archives are limited to 4 GiB and 65535 entries (no zip64).
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  for (const { name, data } of entries) {
+    const nameBytes = encoder.encode(name)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true) // local file header signature
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // flags: utf-8 names
+    local.setUint16(8, 0, true) // method: stored
+    local.setUint16(10, 0, true) // time
+    local.setUint16(12, 0x21, true) // date: 1980-01-01
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true) // compressed size
+    local.setUint32(22, data.length, true) // uncompressed size
+    local.setUint16(26, nameBytes.length, true)
+    local.setUint16(28, 0, true) // extra field length
+
+    const central = new DataView(new ArrayBuffer(46 + nameBytes.length))
+    central.setUint32(0, 0x02014b50, true) // central directory signature
+    central.setUint16(4, 20, true) // version made by
+    central.setUint16(6, 20, true) // version needed
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, 0, true)
+    central.setUint16(14, 0x21, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, nameBytes.length, true)
+    central.setUint32(42, offset, true) // local header offset
+    new Uint8Array(central.buffer).set(nameBytes, 46)
+
+    parts.push(local.buffer, nameBytes as BlobPart, data as BlobPart)
+    centralDirectory.push(new Uint8Array(central.buffer))
+    offset += 30 + nameBytes.length + data.length
+  }
+
+  const centralSize = centralDirectory.reduce((size, entry) => size + entry.length, 0)
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true) // end of central directory signature
+  end.setUint16(8, entries.length, true) // entries on this disk
+  end.setUint16(10, entries.length, true) // total entries
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true) // central directory offset
+
+  return new Blob([...parts, ...(centralDirectory as BlobPart[]), end.buffer], { type: 'application/zip' })
+}
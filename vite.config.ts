@@ -1,10 +1,275 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import glsl from 'vite-plugin-glsl'
 import path from 'path'
+import { readdirSync, readFileSync, statSync } from 'fs'
+import ts from 'typescript'
+import { hashString } from './src/utils/hash_string'
+import type { SketchMeta } from './src/utils/sketch_module'
+import type { SketchManifest } from './src/utils/sketch_registry'
 
 import { TanStackRouterVite } from '@tanstack/router-vite-plugin'
 
+const SOURCE_DIR = path.resolve(__dirname, 'src')
+const SKETCHES_DIR = path.resolve(__dirname, 'src/sketches')
+const SKETCH_MANIFEST_ID = 'virtual:sketch-manifest'
+// Sent to the client with the hashes that changed, see `getSketchHash`
+const SKETCH_HASHES_EVENT = 'fragments:sketch-hashes'
+// Tried in order after an import specifier, like Vite resolves them
+const IMPORT_SUFFIXES = ['', '.ts', '.tsx', '/index.ts', '/index.tsx']
+
+const findSketchFiles = () => {
+  return readdirSync(SKETCHES_DIR, { recursive: true, encoding: 'utf-8' })
+    .filter((file) => /\.tsx?$/.test(file))
+    .map((file) => path.join(SKETCHES_DIR, file))
+}
+
+/**
+ * Converts a sketch file into its sketch path, like `filePathToSketchPath` does for glob keys.
+ * /…/src/sketches/nested/dawn-1.ts -> nested/dawn-1
+ */
+const toSketchPath = (file: string) => {
+  return path
+    .relative(SKETCHES_DIR, file)
+    .replace(/\.tsx?$/, '')
+    .split(path.sep)
+    .join('/')
+}
+
+/**
+ * Resolves a relative or `@/` import to a file in the project. Package imports resolve to `undefined`.
+ */
+const resolveLocalImport = (specifier: string, importer: string) => {
+  // Queries like `?raw` still import the file
+  const [request] = specifier.split('?')
+  const base = request.startsWith('@/')
+    ? path.join(SOURCE_DIR, request.slice(2))
+    : request.startsWith('.')
+      ? path.resolve(path.dirname(importer), request)
+      : undefined
+
+  if (!base) {
+    return undefined
+  }
+
+  return IMPORT_SUFFIXES.map((suffix) => `${base}${suffix}`).find((file) =>
+    statSync(file, { throwIfNoEntry: false })?.isFile(),
+  )
+}
+
+/**
+ * Fingerprint of a sketch file and every local file it imports, directly or through other modules, so editing a
+ * shared helper changes the hash of every sketch that uses it. Packages aren't part of it.
+ */
+const hashSketchSources = (file: string) => {
+  const sources = new Map<string, string>()
+  const pending = [file]
+
+  for (let current = pending.pop(); current; current = pending.pop()) {
+    if (sources.has(current)) {
+      continue
+    }
+
+    const source = readFileSync(current, 'utf-8')
+    sources.set(current, source)
+
+    // Shaders and other assets are hashed, but only scripts have imports to follow
+    if (!/\.[jt]sx?$/.test(current)) {
+      continue
+    }
+
+    for (const { fileName } of ts.preProcessFile(source, true, true).importedFiles) {
+      const resolved = resolveLocalImport(fileName, current)
+      if (resolved) {
+        pending.push(resolved)
+      }
+    }
+  }
+
+  const files = [...sources.keys()].sort()
+  return hashString(files.map((file) => `${path.relative(__dirname, file)}\n${sources.get(file)}`).join('\n'))
+}
+
+/**
+ * Converts a literal expression (strings, numbers, booleans, `null`, and arrays and objects of them) into its value.
+ * @throws For anything only known by running the module
+ */
+const toLiteralValue = (node: ts.Expression): unknown => {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return toLiteralValue(node.expression)
+  }
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text
+  }
+
+  if (ts.isNumericLiteral(node)) {
+    return Number(node.text)
+  }
+
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return -Number(node.operand.text)
+  }
+
+  if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+    return node.kind === ts.SyntaxKind.TrueKeyword
+  }
+
+  if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return null
+  }
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map(toLiteralValue)
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    return Object.fromEntries(
+      node.properties.map((property) => {
+        if (
+          !ts.isPropertyAssignment(property) ||
+          !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+        ) {
+          throw new Error(`\`${property.getText()}\` is not a literal property`)
+        }
+
+        return [property.name.text, toLiteralValue(property.initializer)]
+      }),
+    )
+  }
+
+  throw new Error(`\`${node.getText()}\` is not a literal`)
+}
+
+/**
+ * Reads the `export const meta = { … }` of a sketch file without running it.
+ * @throws When `meta` isn't a literal
+ */
+const readSketchMeta = (file: string) => {
+  const source = ts.createSourceFile(file, readFileSync(file, 'utf-8'), ts.ScriptTarget.Latest, true)
+
+  for (const statement of source.statements) {
+    if (!ts.isVariableStatement(statement)) {
+      continue
+    }
+    if (!statement.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+      continue
+    }
+
+    for (const { name, initializer } of statement.declarationList.declarations) {
+      if (ts.isIdentifier(name) && name.text === 'meta' && initializer) {
+        return toLiteralValue(initializer) as SketchMeta
+      }
+    }
+  }
+
+  return undefined
+}
+
+const getSketchHashes = () => {
+  return Object.fromEntries(findSketchFiles().map((file) => [toSketchPath(file), hashSketchSources(file)]))
+}
+
+/**
+ * Serves `virtual:sketch-manifest` (see `SketchManifest`), what the app knows about every sketch without loading
+ * its module. `meta` is read from the source, so it has to be a literal.
+ * In development the manifest is rebuilt for the next page load after a sketch or one of its imports changes. Open
+ * pages get new metadata through hot updates instead (see `updateSketch`), and new hashes through an event sent ahead
+ * of them.
+ */
+const sketchManifest = (): Plugin => {
+  const resolvedId = `\0${SKETCH_MANIFEST_ID}`
+  let hashes: Record<string, string> = {}
+
+  return {
+    name: 'fragments:sketch-manifest',
+    resolveId(id) {
+      return id === SKETCH_MANIFEST_ID ? resolvedId : undefined
+    },
+    load(id) {
+      if (id !== resolvedId) {
+        return
+      }
+
+      const manifest: SketchManifest = {}
+      hashes = getSketchHashes()
+
+      for (const file of findSketchFiles()) {
+        let meta: SketchMeta | undefined
+        try {
+          meta = readSketchMeta(file)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          this.warn(
+            `${path.relative(__dirname, file)}: Can't read \`meta\`, ${message}. Sketch lists show its file name`,
+          )
+        }
+
+        const sketchPath = toSketchPath(file)
+        manifest[sketchPath] = { meta, hash: hashes[sketchPath] }
+      }
+
+      return `export default ${JSON.stringify(manifest)}`
+    },
+    hotUpdate({ file }) {
+      // Created and deleted files count too
+      if (this.environment.name !== 'client' || !file.startsWith(`${SOURCE_DIR}/`)) {
+        return
+      }
+
+      const previous = hashes
+      hashes = getSketchHashes()
+
+      const changed = Object.fromEntries(Object.entries(hashes).filter(([path, hash]) => previous[path] !== hash))
+      if (!Object.keys(changed).length && Object.keys(previous).length === Object.keys(hashes).length) {
+        return
+      }
+
+      const mod = this.environment.moduleGraph.getModuleById(resolvedId)
+      if (mod) {
+        this.environment.moduleGraph.invalidateModule(mod)
+      }
+      this.environment.hot.send({ type: 'custom', event: SKETCH_HASHES_EVENT, data: changed })
+    },
+  }
+}
+
+/**
+ * Makes every sketch module accept its own hot updates and hand the new module to the sketch registry
+ * (see `updateSketch`), so the sketch route swaps in the new nodes instead of reloading the page.
+ * Shared helpers imported by sketches update through the same path.
+ */
+const sketchHotUpdate = (): Plugin => ({
+  name: 'fragments:sketch-hot-update',
+  apply: 'serve',
+  transform(code, id, options) {
+    // Only the modules themselves, not their `?raw` imports and the like (`?t=` is an HMR timestamp)
+    const [file, query = ''] = id.split('?')
+    const isModule = query.split('&').every((param) => !param || param.startsWith('t='))
+    if (options?.ssr || !isModule || !file.startsWith(`${SKETCHES_DIR}/`) || !/\.tsx?$/.test(file)) {
+      return
+    }
+
+    const sketchPath = toSketchPath(file)
+
+    return {
+      code: `${code}
+import { updateSketch as __updateSketch } from '@/utils/sketch_registry'
+if (import.meta.hot) {
+  import.meta.hot.accept((mod) => {
+    if (mod) __updateSketch(${JSON.stringify(sketchPath)}, mod)
+  })
+}
+`,
+      map: null,
+    }
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
   optimizeDeps: {
@@ -15,7 +280,15 @@ export default defineConfig({
   build: {
     target: 'esnext',
   },
-  plugins: [react(), glsl(), TanStackRouterVite()],
+  plugins: [
+    // Scene sketches are components too, but they export `meta` and the like, so React Refresh would give up on them
+    // and reload the page; `sketchHotUpdate` swaps them in instead
+    react({ exclude: [/\/node_modules\//, `${SKETCHES_DIR}/**`] }),
+    glsl(),
+    TanStackRouterVite(),
+    sketchManifest(),
+    sketchHotUpdate(),
+  ],
   resolve: {
     alias: {
       '@/routes': path.resolve(__dirname, 'src/routes'),